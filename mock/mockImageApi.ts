@@ -0,0 +1,339 @@
+import {createServer, IncomingMessage, ServerResponse} from "http";
+import {AddressInfo} from "net";
+import type {Plugin} from "vite";
+
+/***
+ Local stand-in for the Chub image endpoints (/images/text2img, /images/img2img, /check),
+ so captures can be exercised without a key or network. It also answers the character
+ reference lookups (/api/characters/..., /api/gallery/project/{id}) from the
+ projects given to setProjects(), and stands in for a Poe vision bot at /v1/chat/completions:
+ replies queued with setVisionReplies() are returned in order, then a bare caption of the
+ image's prompt.
+
+ The behaviour of the next generations is scripted through a scenario:
+   POST {base}/__scenario   {"mode": "polls", "polls": 3}
+   GET  {base}/__requests   every request received since the last reset
+   POST {base}/__reset      back to the default scenario, clears jobs and the request log
+
+ In development the API is mounted on the Vite dev server at /mock-api (see vite.config.ts);
+ tests can start a standalone instance with startMockImageServer().
+ ***/
+
+export type MockScenario =
+    // Image is ready in the submit response
+    { mode: 'immediate' } |
+    // Submit returns pending; the Nth /check reports done
+    { mode: 'polls', polls: number } |
+    // Submit returns pending; the first /check reports failure
+    { mode: 'failed' } |
+    // /check never reports done
+    { mode: 'never' } |
+    // Submit is rejected with 422 Unprocessable Entity
+    { mode: 'reject422' } |
+    // The first `failures` submits get 429 Too Many Requests (Retry-After: 0), then images are immediate
+    { mode: 'rateLimited', failures: number } |
+    // Submit returns pending; the first /check reports a content-policy rejection
+    { mode: 'blocked' };
+
+export interface MockProject {
+    // A non-numeric id makes the gallery endpoint answer 422, like the real API
+    id: number | string;
+    name: string;
+    fullPath: string;
+    galleryImages: number;
+}
+
+export interface MockRequestRecord {
+    method: string;
+    path: string;
+    body: unknown;
+}
+
+interface MockJob {
+    uuid: string;
+    scenario: MockScenario;
+    checks: number;
+    prompt: string;
+}
+
+export const MOCK_API_PATH = "/mock-api";
+
+export class MockImageApi {
+    scenario: MockScenario = { mode: 'immediate' };
+    requests: MockRequestRecord[] = [];
+    projects: MockProject[] = [];
+    visionReplies: string[] = [];
+    private jobs = new Map<string, MockJob>();
+    private counter = 0;
+    private rateLimited = 0;
+
+    setScenario(scenario: MockScenario) {
+        this.scenario = scenario;
+        this.rateLimited = 0;
+    }
+
+    setProjects(projects: MockProject[]) {
+        this.projects = projects;
+    }
+
+    setVisionReplies(replies: string[]) {
+        this.visionReplies = [...replies];
+    }
+
+    reset() {
+        this.setScenario({ mode: 'immediate' });
+        this.requests = [];
+        this.projects = [];
+        this.visionReplies = [];
+        this.jobs.clear();
+    }
+
+    // Connect-style handler; paths are relative to wherever the API is mounted
+    handle = async (req: IncomingMessage, res: ServerResponse, basePath: string = "") => {
+        const url = new URL(req.url || "/", `http://${req.headers.host || 'localhost'}`);
+        const path = url.pathname;
+        const body = req.method === 'POST' ? await readJson(req) : undefined;
+        const origin = `http://${req.headers.host || 'localhost'}${basePath}`;
+
+        if (!path.startsWith("/__")) {
+            this.requests.push({ method: req.method || 'GET', path, body });
+        }
+
+        if (path === "/__scenario" && req.method === 'POST') {
+            this.setScenario(body as MockScenario);
+            return sendJson(res, 200, { scenario: this.scenario });
+        }
+        if (path === "/__requests") {
+            return sendJson(res, 200, { requests: this.requests });
+        }
+        if (path === "/__reset" && req.method === 'POST') {
+            this.reset();
+            return sendJson(res, 200, { ok: true });
+        }
+        if (path === "/__projects" && req.method === 'POST') {
+            this.setProjects(body as MockProject[]);
+            return sendJson(res, 200, { projects: this.projects });
+        }
+
+        if (req.method === 'GET' && this.handleReferenceLookup(path, url.searchParams, origin, res)) {
+            return;
+        }
+
+        const imageMatch = path.match(/^\/images\/mock\/([\w-]+)\.svg$/);
+        if (imageMatch) {
+            const job = this.jobs.get(imageMatch[1]);
+            res.writeHead(200, { 'Content-Type': 'image/svg+xml' });
+            res.end(placeholderSvg(job?.prompt || imageMatch[1]));
+            return;
+        }
+
+        if (req.method !== 'POST') {
+            return sendJson(res, 404, { detail: "Not found" });
+        }
+
+        if (path === "/v1/chat/completions") {
+            return this.handleVision(body, res);
+        }
+
+        if (!req.headers['ch-api-key']) {
+            return sendJson(res, 401, { detail: "Missing CH-API-KEY header" });
+        }
+
+        if (path === "/images/text2img" || path === "/images/img2img") {
+            const payload = (body || {}) as Record<string, unknown>;
+            if (this.scenario.mode === 'reject422' || typeof payload.prompt !== 'string') {
+                return sendJson(res, 422, {
+                    detail: [{ loc: ["body", "prompt"], msg: "mock validation error", type: "value_error" }]
+                });
+            }
+            if (this.scenario.mode === 'rateLimited' && this.rateLimited < this.scenario.failures) {
+                this.rateLimited++;
+                res.setHeader('Retry-After', "0");
+                return sendJson(res, 429, { detail: "Rate limit exceeded" });
+            }
+            if (path === "/images/img2img" && typeof payload.init_image !== 'string') {
+                return sendJson(res, 422, {
+                    detail: [{ loc: ["body", "init_image"], msg: "field required", type: "value_error.missing" }]
+                });
+            }
+
+            const uuid = `mock-${++this.counter}`;
+            const job: MockJob = { uuid, scenario: this.scenario, checks: 0, prompt: payload.prompt };
+            this.jobs.set(uuid, job);
+
+            if (job.scenario.mode === 'immediate' || job.scenario.mode === 'rateLimited') {
+                return sendJson(res, 200, {
+                    generation_uuid: uuid,
+                    is_done: true,
+                    primary_image_path: imageUrl(origin, uuid)
+                });
+            }
+            return sendJson(res, 200, { generation_uuid: uuid, is_done: false, cost: 0, queue_length: 0 });
+        }
+
+        if (path === "/check") {
+            const { generation_uuid } = (body || {}) as { generation_uuid?: string };
+            const job = generation_uuid ? this.jobs.get(generation_uuid) : undefined;
+            if (!job) {
+                return sendJson(res, 404, { detail: "Unknown generation_uuid" });
+            }
+            job.checks++;
+
+            switch (job.scenario.mode) {
+                case 'failed':
+                    return sendJson(res, 200, { generation_uuid: job.uuid, is_done: false, is_failed: true });
+                case 'blocked':
+                    return sendJson(res, 200, {
+                        generation_uuid: job.uuid,
+                        is_done: false,
+                        is_failed: true,
+                        error: "Prompt rejected by the NSFW content filter"
+                    });
+                case 'polls':
+                    if (job.checks >= job.scenario.polls) {
+                        return sendJson(res, 200, {
+                            generation_uuid: job.uuid,
+                            is_done: true,
+                            primary_image_path: imageUrl(origin, job.uuid)
+                        });
+                    }
+                    break;
+                case 'immediate':
+                    return sendJson(res, 200, {
+                        generation_uuid: job.uuid,
+                        is_done: true,
+                        primary_image_path: imageUrl(origin, job.uuid)
+                    });
+            }
+            return sendJson(res, 200, { generation_uuid: job.uuid, is_done: false, queue_length: 1 });
+        }
+
+        return sendJson(res, 404, { detail: "Not found" });
+    }
+
+    // OpenAI-style chat completion describing the image in the request
+    private handleVision(body: unknown, res: ServerResponse) {
+        const messages = ((body || {}) as { messages?: { content?: unknown }[] }).messages || [];
+        const parts = messages.flatMap(message => Array.isArray(message.content) ? message.content : []);
+        const url: string = parts.find(part => part?.type === 'image_url')?.image_url?.url || "";
+        const job = this.jobs.get(url.match(/\/images\/mock\/([\w-]+)\.svg$/)?.[1] || "");
+        const content = this.visionReplies.shift() ?? JSON.stringify({ caption: job?.prompt || "" });
+        return sendJson(res, 200, { choices: [{ message: { role: "assistant", content } }] });
+    }
+
+    // Chub project/gallery lookups; returns false when the path is not one of them
+    private handleReferenceLookup(path: string, query: URLSearchParams, origin: string, res: ServerResponse): boolean {
+        const projectMatch = path.match(/^\/api\/(characters\/.+)$/);
+        if (projectMatch) {
+            const project = this.projects.find(candidate => candidate.fullPath === projectMatch[1]);
+            if (project) {
+                sendJson(res, 200, { node: projectNode(project, origin) });
+            } else {
+                sendJson(res, 404, { detail: "Project not found" });
+            }
+            return true;
+        }
+
+        const galleryMatch = path.match(/^\/api\/gallery\/project\/([^/]+)$/);
+        if (galleryMatch) {
+            // Like the real API, non-numeric ids are a validation error
+            if (!/^\d+$/.test(galleryMatch[1])) {
+                sendJson(res, 422, {
+                    detail: [{ loc: ["path", "project_id"], msg: "value is not a valid integer", type: "type_error.integer" }]
+                });
+                return true;
+            }
+            const project = this.projects.find(candidate => String(candidate.id) === galleryMatch[1]);
+            const page = Number(query.get('page') || 1);
+            const limit = Number(query.get('limit') || 24);
+            const total = project?.galleryImages || 0;
+            const nodes = [];
+            for (let index = (page - 1) * limit; index < Math.min(total, page * limit); index++) {
+                nodes.push({
+                    primary_image_path: `${origin}/images/mock/gallery-${project?.id}-${index}.svg`,
+                    primary_character_id: project?.id
+                });
+            }
+            sendJson(res, 200, { nodes, count: total, page });
+            return true;
+        }
+
+        return false;
+    }
+}
+
+function projectNode(project: MockProject, origin: string) {
+    return {
+        id: project.id,
+        name: project.name,
+        fullPath: project.fullPath,
+        avatar_url: `${origin}/images/mock/avatar-${project.id}.svg`,
+        hasGallery: project.galleryImages > 0,
+        description: `${project.name} (mock project)`
+    };
+}
+
+// Vite dev-server plugin mounting the mock under /mock-api
+export function mockImageApiPlugin(api: MockImageApi = new MockImageApi()): Plugin {
+    return {
+        name: 'mock-image-api',
+        configureServer(server) {
+            server.middlewares.use(MOCK_API_PATH, (req, res) => {
+                api.handle(req, res, MOCK_API_PATH).catch(error => sendJson(res, 500, { detail: String(error) }));
+            });
+        }
+    };
+}
+
+export interface RunningMockServer {
+    url: string;
+    api: MockImageApi;
+    close: () => Promise<void>;
+}
+
+// Standalone instance on a free port, for automated tests
+export function startMockImageServer(api: MockImageApi = new MockImageApi()): Promise<RunningMockServer> {
+    const server = createServer((req, res) => {
+        api.handle(req, res).catch(error => sendJson(res, 500, { detail: String(error) }));
+    });
+    return new Promise(resolve => {
+        server.listen(0, '127.0.0.1', () => {
+            const { port } = server.address() as AddressInfo;
+            resolve({
+                url: `http://127.0.0.1:${port}`,
+                api,
+                close: () => new Promise<void>(done => server.close(() => done()))
+            });
+        });
+    });
+}
+
+function imageUrl(origin: string, uuid: string): string {
+    return `${origin}/images/mock/${uuid}.svg`;
+}
+
+function readJson(req: IncomingMessage): Promise<unknown> {
+    return new Promise(resolve => {
+        let data = "";
+        req.on('data', chunk => data += chunk);
+        req.on('end', () => {
+            try {
+                resolve(data ? JSON.parse(data) : {});
+            } catch {
+                resolve({});
+            }
+        });
+    });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+}
+
+function placeholderSvg(label: string): string {
+    const text = label.replace(/[<>&"]/g, '').slice(0, 80);
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="1024" height="1024">` +
+        `<rect width="100%" height="100%" fill="#16213e"/>` +
+        `<text x="50%" y="50%" fill="#ffd700" font-size="28" text-anchor="middle">${text}</text></svg>`;
+}
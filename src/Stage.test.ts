@@ -0,0 +1,1002 @@
+import {afterAll, beforeAll, beforeEach, describe, expect, it, vi} from "vitest";
+import {renderToStaticMarkup} from "react-dom/server";
+import {RunningMockServer, startMockImageServer} from "../mock/mockImageApi";
+import {botMessage, createTestStage, playTranscript, readZip, userMessage} from "./testHelpers";
+
+const LIBRARY_TRANSCRIPT = [
+    "Meet me in the library tonight, we have an exam to study for.",
+    "Janessa smiled and opened her notes. She seemed nervous about the night ahead."
+];
+
+beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe("Stage construction", () => {
+    it("builds from test-init.json and loads", async () => {
+        const stage = createTestStage();
+        const response = await stage.load();
+
+        expect(response.success).toBe(true);
+        expect(response.error).toBeNull();
+        expect(stage.visualState.isGenerating).toBe(false);
+        expect(stage.visualState.generationProgress).toBe("Ready");
+    });
+});
+
+describe("message history", () => {
+    it("grows with each beforePrompt/afterResponse and is returned in messageState", async () => {
+        const stage = createTestStage();
+
+        const before = await stage.beforePrompt(userMessage("Hello there"));
+        expect(before.messageState?.message_history).toHaveLength(1);
+        expect(before.messageState?.message_history?.[0]).toMatchObject({ content: "Hello there", isUser: true });
+        expect(before.stageDirections).toBeNull();
+
+        const after = await stage.afterResponse(botMessage("Hi!"));
+        expect(after.messageState?.message_history).toHaveLength(2);
+        expect(after.messageState?.message_history?.[1]).toMatchObject({ content: "Hi!", isUser: false });
+        expect(after.messageState?.scene_context).toMatchObject({ lastBotMessage: "Hi!", messageCount: 2 });
+    });
+
+    it("feeds the tracked scene back as stage directions when enabled", async () => {
+        const stage = createTestStage({ scene_directions: true });
+
+        const first = await stage.beforePrompt(userMessage("Hello there"));
+        expect(first.stageDirections).toBeNull();
+
+        await stage.afterResponse(botMessage("Janessa waved from the library. It was already night."));
+        const next = await stage.beforePrompt(userMessage("I sit down next to her."));
+
+        expect(next.stageDirections).toContain("Location: library");
+        expect(next.stageDirections).toContain("Time: night");
+        expect(next.stageDirections).toContain("Present: Janessa");
+    });
+
+    it("keeps only the last 20 messages", async () => {
+        const stage = createTestStage();
+        const turns = Array.from({ length: 25 }, (_, i) => `message ${i}`);
+
+        await playTranscript(stage, turns);
+
+        const history = stage['getCurrentMessageHistory']();
+        expect(history).toHaveLength(20);
+        expect(history[0].content).toBe("message 5");
+        expect(history[19].content).toBe("message 24");
+    });
+});
+
+describe("parseSceneContext", () => {
+    it("falls back to defaults with no history", async () => {
+        const stage = createTestStage();
+
+        const context = await stage['parseSceneContext']();
+
+        expect(context).toEqual({
+            characters: ["main character"],
+            location: "university campus",
+            actions: "conversation",
+            mood: "neutral",
+            timeOfDay: "day",
+            people: [],
+            props: [],
+            weather: "",
+            lighting: "",
+            camera: "wide shot",
+            confidence: {}
+        });
+    });
+
+    it("extracts location, action, mood and time of day from the transcript", async () => {
+        const stage = createTestStage();
+        await playTranscript(stage, LIBRARY_TRANSCRIPT);
+
+        const context = await stage['parseSceneContext']();
+
+        expect(context.characters).toEqual(["Janessa"]);
+        expect(context.location).toBe("library");
+        expect(context.actions).toBe("taking exam");
+        expect(context.mood).toBe("anxious");
+        expect(context.timeOfDay).toBe("night");
+    });
+
+    it("scores keywords on word boundaries with recency and negation", async () => {
+        const stage = createTestStage();
+        await playTranscript(stage, [
+            "We sat in the classroom going over the contest rules.",
+            "Later we left the classroom and walked to the cafe."
+        ]);
+
+        const context = await stage['parseSceneContext']();
+
+        expect(context.location).toBe("cafe");
+        expect(context.actions).toBe("conversation");
+        expect(context.confidence?.location).toBeGreaterThan(0.5);
+    });
+
+    it("keeps earlier evidence until a message replaces it", async () => {
+        const stage = createTestStage();
+        await playTranscript(stage, ["We walked along the beach.", ...Array.from({ length: 10 }, () => "Nothing much happens.")]);
+
+        expect((await stage['parseSceneContext']()).location).toBe("beach");
+
+        await playTranscript(stage, ["Let's head to the cafe."]);
+
+        expect((await stage['parseSceneContext']()).location).toBe("cafe");
+    });
+
+    it("stores the tracked scene in message state and restores it per branch", async () => {
+        const stage = createTestStage();
+        const atLibrary = (await stage.beforePrompt(userMessage("Meet me at the library."))).messageState!;
+        await stage.afterResponse(botMessage("Janessa walked into the cafe at night."));
+        expect(stage['sceneTracker'].transitions.map(transition => transition.description)).toEqual([
+            "entered the library", "entered the cafe", "night fell", "Janessa arrived"
+        ]);
+
+        await stage.setState(atLibrary);
+
+        expect((await stage['parseSceneContext']()).location).toBe("library");
+        expect(createTestStage({}, { messageState: atLibrary })['sceneTracker'].current.location).toBe("library");
+    });
+
+    it("rebuilds the scene from stored history when there is no tracker state", async () => {
+        const stage = createTestStage({}, {
+            messageState: { message_history: [{ content: "Janessa waited in the garden.", isUser: false, timestamp: 0, speakerId: "1" }] }
+        });
+
+        expect(stage['sceneTracker'].current).toMatchObject({ location: "garden", characters: ["Janessa"] });
+    });
+});
+
+describe("LLM scene analysis", () => {
+    it("uses the model's scene when the reply is valid", async () => {
+        const stage = createTestStage({ scene_analysis: 'llm' });
+        const textGen = vi.spyOn(stage.generator, 'textGen').mockResolvedValue({
+            result: '{"characters": ["Janessa"], "location": "study room", "actions": "revising", "mood": "anxious", "timeOfDay": "night"}'
+        });
+        await playTranscript(stage, LIBRARY_TRANSCRIPT);
+        const tracked = stage['sceneTracker'].toState();
+
+        const context = await stage['parseSceneContext']();
+
+        expect(context).toMatchObject({ location: "study room", actions: "revising", timeOfDay: "night" });
+        expect(textGen.mock.calls[0][0].prompt).toContain("Janessa: Janessa smiled and opened her notes.");
+        // A capture's analysis does not rewrite the chat's scene or its transitions
+        expect(stage['sceneTracker'].toState()).toEqual(tracked);
+    });
+
+    it("falls back to the keyword extractors when the reply is not scene JSON", async () => {
+        const stage = createTestStage({ scene_analysis: 'llm' });
+        await playTranscript(stage, LIBRARY_TRANSCRIPT);
+
+        const context = await stage['parseSceneContext']();
+
+        expect(context).toMatchObject({ location: "library", actions: "taking exam", mood: "anxious" });
+    });
+});
+
+describe("narrator", () => {
+    const NARRATIVE = "Janessa spread her notes across the library table as night settled over the campus.";
+
+    it("chronicles the scene after each bot response", async () => {
+        const stage = createTestStage({ enable_narrator: true, campus_name: "Hill College" });
+        const textGen = vi.spyOn(stage.generator, 'textGen').mockResolvedValue({ result: `Narrator: ${NARRATIVE}` });
+
+        await stage.beforePrompt(userMessage(LIBRARY_TRANSCRIPT[0]));
+        const response = await stage.afterResponse(botMessage(LIBRARY_TRANSCRIPT[1], { identity: "bot-1" }));
+        expect(response.messageState).toMatchObject({ narrator_active: true });
+        await stage['narrationRun'];
+
+        expect(stage.visualState.currentNarrative).toBe(NARRATIVE);
+        expect(textGen.mock.calls[0][0].prompt).toContain("chronicler of Hill College");
+        expect(renderToStaticMarkup(stage.render())).toContain(NARRATIVE);
+        // Saved by message even though no image was captured
+        expect(stage['chatState']().narratives).toEqual([{ messageId: "bot-1", narrative: NARRATIVE, timestamp: expect.any(Number) }]);
+        expect(stage['chronicleEntries']).toHaveLength(0);
+
+        // A failed chronicle keeps the last one
+        textGen.mockRejectedValue(new Error("offline"));
+        const next = await stage.beforePrompt(userMessage("And then?"));
+        expect(next.messageState?.last_narrative).toBe(NARRATIVE);
+        await stage.afterResponse(botMessage("Janessa kept reading.", { identity: "bot-2" }));
+        await stage['narrationRun'];
+        expect(stage.visualState.currentNarrative).toBe(NARRATIVE);
+    });
+
+    it("does not hold up the response while the narrator writes", async () => {
+        const stage = createTestStage({ enable_narrator: true });
+        let finish: (result: { result: string }) => void = () => {};
+        vi.spyOn(stage.generator, 'textGen').mockReturnValue(new Promise(resolve => finish = resolve));
+        const saveChatState = vi.spyOn(stage.messenger, 'updateChatState');
+
+        await stage.afterResponse(botMessage(LIBRARY_TRANSCRIPT[1], { identity: "bot-1" }));
+        expect(stage.visualState.currentNarrative).toBe("");
+
+        finish({ result: NARRATIVE });
+        await stage['narrationRun'];
+        expect(stage.visualState.currentNarrative).toBe(NARRATIVE);
+        expect(saveChatState).toHaveBeenLastCalledWith(expect.objectContaining({
+            narratives: [expect.objectContaining({ messageId: "bot-1", narrative: NARRATIVE })]
+        }));
+    });
+
+    it("leaves last_narrative alone when the narrator is off", async () => {
+        const stage = createTestStage();
+        const textGen = vi.spyOn(stage.generator, 'textGen');
+
+        const response = await stage.afterResponse(botMessage("Janessa kept reading."));
+
+        expect(textGen).not.toHaveBeenCalled();
+        expect(response.messageState).toMatchObject({ narrator_active: false });
+        expect(response.messageState?.last_narrative).toBeUndefined();
+    });
+
+    it("starts the image prompt from the narrative when narrative_prompt is on", async () => {
+        const stage = createTestStage({ enable_narrator: true, narrative_prompt: true });
+        vi.spyOn(stage.generator, 'textGen').mockResolvedValue({ result: NARRATIVE });
+        await playTranscript(stage, LIBRARY_TRANSCRIPT);
+        await stage['narrationRun'];
+
+        const prompt = stage['createScenePrompt'](await stage['parseSceneContext']());
+
+        expect(prompt).toMatch(/^cinematic scene, [^:]+: Janessa spread her notes across the library table as night settled over the campus, /);
+    });
+});
+
+describe("createScenePrompt", () => {
+    it("renders the scene style and every context field", () => {
+        const stage = createTestStage({ scene_style: "anime" });
+
+        const prompt = stage['createScenePrompt']({
+            characters: ["Janessa", "Susan"],
+            location: "library",
+            actions: "studying",
+            mood: "peaceful",
+            timeOfDay: "evening"
+        });
+
+        expect(prompt).toBe("anime scene: Janessa (37-year-old woman) and Susan studying at library, peaceful mood, evening lighting, " +
+            "high quality, detailed, clean lineart, vibrant colors, cel shading");
+    });
+
+    it("renders framing, per-character details, props, weather and lighting in order", async () => {
+        const stage = createTestStage({ scene_style: "anime" });
+        await playTranscript(stage, [
+            "I sit down across from Susan with my coffee.",
+            "Janessa leans on the table, wearing a red scarf, and smiles. Susan frowns at the rain. The lamp flickers."
+        ]);
+
+        const prompt = stage['createScenePrompt'](await stage['parseSceneContext']());
+
+        expect(prompt).toBe(
+            "anime scene, two-shot: Janessa (37-year-old woman, wearing a red scarf, smiling, leaning, on the left) and " +
+            "Susan (frowning, on the right) conversation at university campus, with coffee, rainy weather, neutral mood, " +
+            "warm lamplight, day lighting, high quality, detailed, clean lineart, vibrant colors, cel shading"
+        );
+    });
+
+    it("renders a custom prompt_template with the style's quality tags", () => {
+        const stage = createTestStage({
+            scene_style: "realistic",
+            prompt_template: "{subjects} at {location}[, with {props}][, {weather} weather], {timeOfDay}, {quality}"
+        });
+
+        const prompt = stage['createScenePrompt']({
+            characters: ["Susan"],
+            location: "cafe",
+            actions: "talking",
+            mood: "happy",
+            timeOfDay: "morning",
+            weather: "rainy"
+        });
+
+        expect(prompt).toBe("Susan at cafe, rainy weather, morning, high quality, detailed, photorealistic, natural skin texture, sharp focus");
+    });
+});
+
+describe("captureScene", () => {
+    let server: RunningMockServer;
+
+    beforeAll(async () => {
+        server = await startMockImageServer();
+    });
+
+    afterAll(async () => {
+        await server.close();
+    });
+
+    beforeEach(() => {
+        server.api.reset();
+    });
+
+    function mockStage(config = {}) {
+        const stage = createTestStage({
+            image_api_base_url: server.url,
+            poll_interval_ms: 5,
+            max_poll_attempts: 4,
+            ...config
+        });
+        const progress: string[] = [];
+        stage.visualStore.subscribe(() => progress.push(stage.visualState.generationProgress));
+        return { stage, progress };
+    }
+
+    it("stores the image when the generation completes immediately", async () => {
+        const { stage, progress } = mockStage();
+        await playTranscript(stage, LIBRARY_TRANSCRIPT);
+
+        await stage.captureScene();
+
+        expect(stage.visualState.lastGeneratedImage).toMatch(/\/images\/mock\/mock-1\.svg$/);
+        expect(stage.visualState.isGenerating).toBe(false);
+        expect(stage.visualState.generationProgress).toBe("Scene captured successfully!");
+        expect(stage.visualState.generationStats).toMatchObject({ totalGenerations: 1, successfulGenerations: 1 });
+        expect(stage.visualState.sceneContext?.location).toBe("library");
+        expect(progress.slice(0, 3)).toEqual([
+            "Analyzing scene context...",
+            "Fetching character references...",
+            "Generating scene image..."
+        ]);
+
+        const submit = server.api.requests.find(request => request.path === "/images/text2img");
+        expect((submit?.body as { prompt: string }).prompt).toContain("at library");
+        expect((submit?.body as { negative_prompt: string }).negative_prompt).toContain("cartoon");
+    });
+
+    it("updates the rendered view without a runner re-render, including the Ready reset", async () => {
+        vi.useFakeTimers({ toFake: ['setTimeout'] });
+        try {
+            const { stage, progress } = mockStage();
+            await playTranscript(stage, LIBRARY_TRANSCRIPT);
+
+            await stage.captureScene();
+            expect(renderToStaticMarkup(stage.render())).toContain("Scene captured successfully!");
+
+            vi.advanceTimersByTime(3000);
+            expect(progress[progress.length - 1]).toBe("Ready");
+            expect(renderToStaticMarkup(stage.render())).not.toContain("Scene captured successfully!");
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+
+    it("sends the configured generation parameters", async () => {
+        const { stage } = mockStage({ aspect_ratio: 'landscape', seed_mode: 'scene', guidance_scale: 6, steps: 40, negative_prompt: "crowds" });
+        await playTranscript(stage, LIBRARY_TRANSCRIPT);
+
+        await stage.captureScene();
+        await playTranscript(stage, ["Let's keep going.", "Janessa turned the page."]);
+        await stage.captureScene();
+
+        const [first, second] = server.api.requests.filter(request => request.path === "/images/text2img").map(request => request.body);
+        expect(first).toMatchObject({ width: 1216, height: 832, guidance_scale: 6, num_inference_steps: 40, negative_prompt: "crowds" });
+        expect(second).toMatchObject({ seed: (first as { seed: number }).seed });
+        expect(stage['chronicleEntries'][1].seed).toBe((first as { seed: number }).seed);
+    });
+
+    it("shows generation settings that were not applied in the panel", () => {
+        const { stage } = mockStage({ aspect_ratio: "toString" });
+
+        expect(renderToStaticMarkup(stage.render())).toContain("Unknown aspect_ratio &quot;toString&quot;; using square");
+    });
+
+    it("uses a character's gallery image as the img2img reference", async () => {
+        const { stage } = mockStage({ character_projects: "Janessa=someone/janessa" });
+        server.api.setProjects([{ id: 7, name: "Janessa", fullPath: "characters/someone/janessa", galleryImages: 3 }]);
+        await playTranscript(stage, LIBRARY_TRANSCRIPT);
+
+        await stage.captureScene();
+
+        expect(stage.visualState.availableCharacters).toHaveLength(1);
+        expect(stage.visualState.availableCharacters[0]).toMatchObject({ characterId: "7", name: "Janessa" });
+        const submit = server.api.requests.find(request => request.path === "/images/img2img");
+        expect((submit?.body as { init_image: string }).init_image).toMatch(/gallery-7-0\.svg$/);
+        expect(stage.visualState.lastGeneratedImage).toBeDefined();
+    });
+
+    it("records each capture in the persisted scene gallery", async () => {
+        const { stage } = mockStage();
+        const saveChatState = vi.spyOn(stage.messenger, 'updateChatState');
+        await playTranscript(stage, LIBRARY_TRANSCRIPT);
+
+        await stage.captureScene();
+        await stage.captureScene();
+
+        const entries = stage['chronicleEntries'];
+        expect(entries).toHaveLength(2);
+        expect(entries[1]).toMatchObject({
+            kind: 'capture',
+            imageUrl: stage.visualState.lastGeneratedImage,
+            provider: 'chub',
+            seed: 0
+        });
+        expect(entries[1].prompt).toContain("at library");
+        expect(entries[1].sceneContext.location).toBe("library");
+        expect(stage.visualState.selectedEntryId).toBe(entries[1].id);
+        expect(saveChatState).toHaveBeenLastCalledWith({ chronicle_entries: entries });
+        expect((await stage.load()).chatState).toEqual({ chronicle_entries: entries });
+    });
+
+    it("attaches the capture to the latest bot message and carries it forward", async () => {
+        const { stage } = mockStage();
+        await stage.beforePrompt(userMessage(LIBRARY_TRANSCRIPT[0], { identity: "u1" }));
+        const botState = (await stage.afterResponse(botMessage(LIBRARY_TRANSCRIPT[1], { identity: "b1" }))).messageState!;
+
+        await stage.captureScene();
+
+        const entry = stage['chronicleEntries'][0];
+        expect(entry.messageId).toBe("b1");
+        const next = await stage.beforePrompt(userMessage("Let's begin.", { identity: "u2" }));
+        expect(next.messageState?.scene_image).toMatchObject({ entryId: entry.id, imageUrl: entry.imageUrl });
+
+        // Swiping back to the bot message finds the image through the gallery
+        await stage.setState(botState);
+        expect(stage.visualState.lastGeneratedImage).toBe(entry.imageUrl);
+        expect(stage.visualState.selectedEntryId).toBe(entry.id);
+    });
+
+    it("generates the scene and prompt as edited in the preview", async () => {
+        const { stage } = mockStage();
+        await playTranscript(stage, LIBRARY_TRANSCRIPT);
+
+        await stage.previewScene();
+        expect(stage.visualState.preview?.context.location).toBe("library");
+        stage.editPreviewField('location', "rooftop garden");
+        expect(stage.visualState.preview?.prompt).toContain("at rooftop garden");
+        stage.editPreviewPrompt("anime scene: two students on a rooftop");
+        stage.editPreviewField('mood', "wistful");
+        expect(stage.visualState.preview?.prompt).toBe("anime scene: two students on a rooftop");
+        await stage.generateFromPreview();
+
+        const submit = server.api.requests.find(request => request.path === "/images/text2img");
+        expect((submit?.body as { prompt: string }).prompt).toBe("anime scene: two students on a rooftop");
+        expect(stage.visualState.preview).toBeUndefined();
+        expect(stage.visualState.sceneContext).toMatchObject({ location: "rooftop garden", mood: "wistful" });
+        expect(stage['pinnedScene']).toBeUndefined();
+    });
+
+    it("keeps pinned edits for later captures until the scene changes", async () => {
+        const { stage } = mockStage();
+        const saveChatState = vi.spyOn(stage.messenger, 'updateChatState');
+        await playTranscript(stage, LIBRARY_TRANSCRIPT);
+
+        await stage.previewScene();
+        stage.editPreviewField('location', "law library");
+        stage.togglePreviewPin();
+        await stage.generateFromPreview();
+        expect(saveChatState).toHaveBeenCalledWith(expect.objectContaining({
+            pinned_scene: expect.objectContaining({ edits: { location: "law library" } })
+        }));
+
+        await playTranscript(stage, ["Let's keep going.", "Janessa turned the page."]);
+        await stage.captureScene();
+        expect(stage.visualState.sceneContext?.location).toBe("law library");
+
+        await playTranscript(stage, ["Let's get coffee.", "Janessa walked into the cafe."]);
+        await stage.captureScene();
+        expect(stage.visualState.sceneContext?.location).toBe("cafe");
+        expect(stage['pinnedScene']).toBeUndefined();
+    });
+
+    it("auto-captures from afterResponse when the scene changes", async () => {
+        const { stage } = mockStage({ auto_capture_on_scene_change: true, auto_capture_cooldown_ms: 0 });
+
+        await playTranscript(stage, ["Hi", "Janessa waved from the cafe."]);
+        await stage['autoCaptureRun'];
+        expect(stage['chronicleEntries']).toHaveLength(0);
+
+        await playTranscript(stage, ["Let's go", "Janessa led the way into the library."]);
+        await stage['autoCaptureRun'];
+
+        expect(stage['chronicleEntries']).toHaveLength(1);
+        expect(stage['chronicleEntries'][0].sceneContext.location).toBe("library");
+        expect(stage['autoCapture'].remaining).toBe(9);
+    });
+
+    it("auto-captures every N bot messages within the budget", async () => {
+        const { stage } = mockStage({ auto_capture_every: 1, auto_capture_cooldown_ms: 0, auto_capture_budget: 2 });
+
+        for (let i = 0; i < 3; i++) {
+            await playTranscript(stage, ["Hi", `Reply ${i}`]);
+            await stage['autoCaptureRun'];
+        }
+
+        expect(stage['chronicleEntries']).toHaveLength(2);
+        expect(server.api.requests.filter(request => request.path === "/images/text2img")).toHaveLength(2);
+    });
+
+    it("does not spend the auto-capture budget without a provider", async () => {
+        const { stage } = mockStage({ chub_api_key: "", auto_capture_every: 1, auto_capture_cooldown_ms: 0, auto_capture_budget: 2 });
+
+        await playTranscript(stage, ["Hi", "Janessa waved."]);
+        await stage['autoCaptureRun'];
+
+        expect(stage['autoCapture'].remaining).toBe(2);
+    });
+
+    it("generates candidates in parallel and keeps the one the user picks", async () => {
+        const { stage } = mockStage({ candidates_per_capture: 3 });
+        await playTranscript(stage, LIBRARY_TRANSCRIPT);
+
+        await stage.captureScene();
+
+        const submits = server.api.requests.filter(request => request.path === "/images/text2img").map(request => request.body as { seed: number, prompt: string });
+        expect(submits.map(body => body.seed).sort()).toEqual([0, 1, 2]);
+        expect(new Set(submits.map(body => body.prompt)).size).toBe(1);
+        const candidates = stage.visualState.candidates!;
+        expect(candidates.images).toHaveLength(3);
+        expect(stage['chronicleEntries']).toHaveLength(0);
+        expect(stage.visualState.generationProgress).toBe("Pick one of 3 candidates");
+
+        stage.chooseCandidate(1);
+
+        expect(stage.visualState.candidates).toBeUndefined();
+        expect(stage.visualState.lastGeneratedImage).toBe(candidates.images[1].imageUrl);
+        expect(stage['chronicleEntries']).toHaveLength(1);
+        expect(stage['chronicleEntries'][0]).toMatchObject({ imageUrl: candidates.images[1].imageUrl, seed: candidates.images[1].seed });
+    });
+
+    it("varies candidate prompts and generates a single image for automatic captures", async () => {
+        const { stage } = mockStage({ candidates_per_capture: 2, candidate_variation: 'prompt' });
+        await playTranscript(stage, LIBRARY_TRANSCRIPT);
+
+        await stage.captureScene();
+        const prompts = server.api.requests.filter(request => request.path === "/images/text2img").map(request => (request.body as { prompt: string }).prompt);
+        expect(prompts[1]).toBe(`${prompts[0]}, alternate camera angle`);
+
+        server.api.reset();
+        await stage['runCapture'](true);
+        expect(server.api.requests.filter(request => request.path === "/images/text2img")).toHaveLength(1);
+        // The unpicked grid stays up
+        expect(stage.visualState.candidates?.images).toHaveLength(2);
+        expect(stage['chronicleEntries']).toHaveLength(1);
+    });
+
+    it("keeps unpicked candidates when another capture finishes", async () => {
+        const { stage } = mockStage({ candidates_per_capture: 2 });
+        await playTranscript(stage, LIBRARY_TRANSCRIPT);
+
+        await stage.captureScene();
+        const first = stage.visualState.candidates!;
+        await stage.captureScene();
+
+        expect(stage.visualState.candidates).toBe(first);
+        expect(stage['waitingCandidates']).toHaveLength(1);
+
+        stage.chooseCandidate(0);
+        const second = stage.visualState.candidates!;
+        expect(second.images).toHaveLength(2);
+        expect(second).not.toBe(first);
+        expect(stage.visualState.generationProgress).toBe("Pick one of 2 candidates");
+
+        stage.discardCandidates();
+        expect(stage.visualState.candidates).toBeUndefined();
+        expect(stage['chronicleEntries']).toHaveLength(1);
+    });
+
+    it("runs /scene commands from the user's message and hides them from the bot", async () => {
+        const { stage } = mockStage();
+        await playTranscript(stage, LIBRARY_TRANSCRIPT);
+
+        const response = await stage.beforePrompt(userMessage("/scene style anime\nLet's keep reading.\n/scene"));
+        await stage['commandRun'];
+
+        expect(response.modifiedMessage).toBe("Let's keep reading.");
+        expect(response.systemMessage).toBe("🎨 Scene style set to anime\n\n📸 Capturing the scene...");
+        expect(response.messageState?.message_history?.slice(-1)[0].content).toBe("Let's keep reading.");
+        const submit = server.api.requests.find(request => request.path === "/images/text2img");
+        expect((submit?.body as { prompt: string }).prompt).toMatch(/^anime scene/);
+        expect(stage['chronicleEntries']).toHaveLength(1);
+        expect(stage['chatState']()).toMatchObject({ scene_style: "anime" });
+    });
+
+    it("renders prompts for a /scene style named like a built-in object key", async () => {
+        const stage = createTestStage();
+        await playTranscript(stage, LIBRARY_TRANSCRIPT);
+
+        await stage.beforePrompt(userMessage("/scene style constructor"));
+
+        expect(stage['createScenePrompt'](await stage['parseSceneContext']())).toMatch(/^constructor scene/);
+    });
+
+    it("pins scene fields and rerolls the shown scene with a new seed", async () => {
+        const { stage } = mockStage();
+        await playTranscript(stage, LIBRARY_TRANSCRIPT);
+
+        const pinned = await stage.beforePrompt(userMessage("/scene location rooftop"));
+        expect(pinned.systemMessage).toBe("📌 Scene location pinned to rooftop");
+        expect(pinned.modifiedMessage).toBe("");
+        // Nothing was left to say, so no empty turn in the history
+        expect(pinned.messageState?.message_history?.map(message => message.content)).toEqual(LIBRARY_TRANSCRIPT);
+        await stage.captureScene();
+        await stage.beforePrompt(userMessage("/scene reroll"));
+        await stage['commandRun'];
+
+        const submits = server.api.requests.filter(request => request.path === "/images/text2img")
+            .map(request => request.body as { prompt: string, seed: number });
+        expect(submits).toHaveLength(2);
+        expect(submits[0].prompt).toContain("at rooftop");
+        expect(submits[1].prompt).toBe(submits[0].prompt);
+        expect(submits[1].seed).not.toBe(submits[0].seed);
+    });
+
+    it("pins without a fresh scene analysis", async () => {
+        const { stage } = mockStage({ scene_analysis: 'llm' });
+        const textGen = vi.spyOn(stage.generator, 'textGen');
+        await playTranscript(stage, LIBRARY_TRANSCRIPT);
+
+        await stage.beforePrompt(userMessage("/scene mood tense"));
+
+        expect(textGen).not.toHaveBeenCalled();
+        expect(stage['pinnedScene']).toBeDefined();
+    });
+
+    it("pauses automatic captures and stage directions with /scene off", async () => {
+        const { stage } = mockStage({ scene_directions: true, auto_capture_every: 1, auto_capture_cooldown_ms: 0 });
+        await playTranscript(stage, LIBRARY_TRANSCRIPT);
+        await stage['autoCaptureRun'];
+        stage['autoCaptureRun'] = undefined;
+
+        const paused = await stage.beforePrompt(userMessage("/scene off\nAnyway."));
+        await stage.afterResponse(botMessage("Janessa turned a page."));
+
+        expect(paused.systemMessage).toBe("⏸️ Scene composer paused - /scene on to resume");
+        expect(paused.stageDirections).toBeNull();
+        expect(stage['autoCaptureRun']).toBeUndefined();
+        expect(stage['chatState']()).toMatchObject({ composer_paused: true });
+
+        const resumed = await stage.beforePrompt(userMessage("/scene on"));
+        expect(resumed.stageDirections).toContain("Location: library");
+
+        const help = await stage.beforePrompt(userMessage("/scene dance"));
+        expect(help.systemMessage).toMatch(/^Unknown scene command "dance"\. Scene commands:/);
+    });
+
+    it("keeps the narrator's chronicle with each capture", async () => {
+        const { stage } = mockStage({ enable_narrator: true });
+        vi.spyOn(stage.generator, 'textGen').mockResolvedValue({ result: "Janessa studied late into the night." });
+        await playTranscript(stage, LIBRARY_TRANSCRIPT);
+        await stage['narrationRun'];
+
+        await stage.captureScene();
+
+        expect(stage['chronicleEntries'][0].narrative).toBe("Janessa studied late into the night.");
+    });
+
+    it("exports the gallery as a storybook with the images and their story", async () => {
+        const { stage } = mockStage();
+        await playTranscript(stage, LIBRARY_TRANSCRIPT);
+        await stage.captureScene();
+
+        const html = await stage['buildStorybook']('html');
+        expect(html.data).toContain('<img src="data:image/svg+xml;base64,');
+        expect(html.data).toContain(LIBRARY_TRANSCRIPT[1]);
+
+        const zip = await stage['buildStorybook']('zip');
+        const files = readZip(zip.data as Uint8Array);
+        expect(Object.keys(files)).toEqual(["images/001-capture.svg", "manifest.json", "storybook.html"]);
+        const manifest = JSON.parse(new TextDecoder().decode(files["manifest.json"]));
+        expect(manifest.scenes[0]).toMatchObject({
+            kind: 'capture',
+            message: LIBRARY_TRANSCRIPT[1],
+            sceneContext: { location: "library" }
+        });
+        expect(manifest.scenes[0].seed).toBe(stage['chronicleEntries'][0].seed);
+    });
+
+    it("refines until the image matches the scene", async () => {
+        const { stage } = mockStage({ vision_api_base_url: `${server.url}/v1` });
+        await playTranscript(stage, LIBRARY_TRANSCRIPT);
+        await stage.captureScene();
+        server.api.setVisionReplies([
+            '{"caption": "a woman in a cafe", "people": 1, "setting": "cafe", "timeOfDay": "night"}',
+            '{"caption": "a woman in a library", "people": 1, "setting": "library", "timeOfDay": "night"}'
+        ]);
+
+        await stage['refineImage'](stage['chronicleEntries'][0], stage.visualState.sceneContext!);
+
+        const refinements = server.api.requests.filter(request => request.path === "/images/img2img");
+        expect(refinements).toHaveLength(1);
+        expect((refinements[0].body as { prompt: string }).prompt).toMatch(/^set in a library, not a cafe, /);
+        const entries = stage['chronicleEntries'];
+        expect(entries.map(entry => entry.kind)).toEqual(['capture', 'refinement']);
+        expect(entries[1].parentImage).toBe(entries[0].imageUrl);
+        expect(stage.visualState.generationProgress).toBe("Image quality verified - no refinement needed");
+    });
+
+    it("refines a hand-written prompt instead of rebuilding it", async () => {
+        const { stage } = mockStage({ vision_api_base_url: `${server.url}/v1` });
+        await playTranscript(stage, LIBRARY_TRANSCRIPT);
+        await stage.previewScene();
+        stage.editPreviewPrompt("anime scene: two students in a library");
+        await stage.generateFromPreview();
+        server.api.setVisionReplies(['{"caption": "a woman in a cafe", "people": 1, "setting": "cafe", "timeOfDay": "night"}']);
+
+        await stage['refineImage'](stage['chronicleEntries'][0], stage.visualState.sceneContext!);
+
+        const refinement = server.api.requests.find(request => request.path === "/images/img2img");
+        expect((refinement?.body as { prompt: string }).prompt).toBe("set in a library, not a cafe, anime scene: two students in a library");
+    });
+
+    it("posts the final image into the chat with the next message", async () => {
+        const { stage } = mockStage({ vision_api_base_url: `${server.url}/v1`, post_images_to_chat: true });
+        await playTranscript(stage, LIBRARY_TRANSCRIPT);
+        await stage.captureScene();
+        server.api.setVisionReplies(['{"caption": "a woman in a cafe", "people": 1, "setting": "cafe", "timeOfDay": "night"}']);
+        await stage['refineImage'](stage['chronicleEntries'][0], stage.visualState.sceneContext!);
+
+        const next = await stage.beforePrompt(userMessage("That looks right."));
+        const refined = stage['chronicleEntries'][1].imageUrl;
+        expect(next.systemMessage).toBe(`![Janessa in the library at night](${refined})`);
+
+        const after = await stage.afterResponse(botMessage("Janessa nodded."));
+        expect(after.systemMessage).toBeNull();
+    });
+
+    it("stops refining after max_refinements", async () => {
+        const { stage } = mockStage({ vision_api_base_url: `${server.url}/v1`, max_refinements: 2 });
+        await playTranscript(stage, LIBRARY_TRANSCRIPT);
+        await stage.captureScene();
+        server.api.setVisionReplies(Array.from({ length: 5 }, () => '{"caption": "", "setting": "beach"}'));
+
+        await stage['refineImage'](stage['chronicleEntries'][0], stage.visualState.sceneContext!);
+
+        expect(server.api.requests.filter(request => request.path === "/v1/chat/completions")).toHaveLength(2);
+        expect(server.api.requests.filter(request => request.path === "/images/img2img")).toHaveLength(2);
+        expect(stage['chronicleEntries']).toHaveLength(3);
+    });
+
+    it("skips refinement without a vision backend", async () => {
+        const { stage } = mockStage();
+        await stage.captureScene();
+
+        await stage['refineImage'](stage['chronicleEntries'][0], stage.visualState.sceneContext!);
+
+        expect(stage.visualState.generationProgress).toBe("Refinement skipped - no vision backend");
+        expect(server.api.requests.filter(request => request.path === "/images/img2img")).toHaveLength(0);
+    });
+
+    it("polls /check until the image is done", async () => {
+        const { stage, progress } = mockStage();
+        server.api.setScenario({ mode: 'polls', polls: 3 });
+
+        await stage.captureScene();
+
+        expect(stage.visualState.lastGeneratedImage).toBeDefined();
+        expect(progress).toContain("Generating... 3/4");
+        expect(progress).not.toContain("Generating... 4/4");
+        expect(server.api.requests.filter(request => request.path === "/check")).toHaveLength(3);
+    });
+
+    it("reports a failed generation", async () => {
+        const { stage } = mockStage();
+        server.api.setScenario({ mode: 'failed' });
+
+        await stage.captureScene();
+
+        expect(stage.visualState.lastGeneratedImage).toBeUndefined();
+        expect(stage.visualState.generationProgress).toBe("Generation failed");
+        expect(stage.visualState.errorMessage).toBeDefined();
+        expect(stage.visualState.generationStats).toMatchObject({ totalGenerations: 1, successfulGenerations: 0 });
+    });
+
+    it("gives up after max_poll_attempts", async () => {
+        const { stage, progress } = mockStage();
+        server.api.setScenario({ mode: 'never' });
+
+        await stage.captureScene();
+
+        expect(stage.visualState.lastGeneratedImage).toBeUndefined();
+        expect(stage.visualState.generationProgress).toBe("Generation failed");
+        expect(progress).toContain("Generating... 4/4");
+        expect(server.api.requests.filter(request => request.path === "/check")).toHaveLength(4);
+    });
+
+    it("handles a 422 from the submit endpoint", async () => {
+        const { stage } = mockStage();
+        server.api.setScenario({ mode: 'reject422' });
+
+        await stage.captureScene();
+
+        expect(stage.visualState.lastGeneratedImage).toBeUndefined();
+        expect(stage.visualState.errorMessage).toBe("The image API rejected the request: prompt: mock validation error");
+        expect(stage.visualState.generationStats.lastErrorKind).toBe('validation');
+        expect(stage.visualState.isGenerating).toBe(false);
+        expect(server.api.requests.filter(request => request.path === "/images/text2img")).toHaveLength(1);
+    });
+
+    it("retries a rate-limited submit", async () => {
+        const { stage, progress } = mockStage();
+        server.api.setScenario({ mode: 'rateLimited', failures: 2 });
+
+        await stage.captureScene();
+
+        expect(server.api.requests.filter(request => request.path === "/images/text2img")).toHaveLength(3);
+        expect(progress).toContain("Rate limited - retrying in 0s (1/3)");
+        expect(stage.visualState.lastGeneratedImage).toBeDefined();
+        expect(stage.visualState.errorMessage).toBeUndefined();
+    });
+
+    it("explains a content-policy rejection and counts it", async () => {
+        const { stage } = mockStage();
+        server.api.setScenario({ mode: 'blocked' });
+
+        await stage.captureScene();
+
+        expect(stage.visualState.errorMessage).toMatch(/content policy/);
+        expect(stage.visualState.generationStats).toMatchObject({
+            lastError: "Prompt rejected by the NSFW content filter",
+            lastErrorKind: 'content_policy',
+            errorsByKind: { content_policy: 1 }
+        });
+    });
+
+    it("does not call the API without a key", async () => {
+        const { stage } = mockStage({ chub_api_key: "" });
+
+        await stage.captureScene();
+
+        expect(stage.visualState.errorMessage).toMatch(/API key/);
+        expect(stage.visualState.generationStats.lastErrorKind).toBe('auth');
+        expect(server.api.requests).toHaveLength(0);
+    });
+
+    it("queues a second capture while one is running", async () => {
+        const { stage } = mockStage();
+        server.api.setScenario({ mode: 'polls', polls: 2 });
+
+        await Promise.all([stage.captureScene(), stage.captureScene()]);
+
+        expect(server.api.requests.filter(request => request.path === "/images/text2img")).toHaveLength(2);
+        expect(stage.visualState.generationStats).toMatchObject({ totalGenerations: 2, successfulGenerations: 2 });
+        expect(stage['chronicleEntries']).toHaveLength(2);
+        expect(stage.visualState.isGenerating).toBe(false);
+    });
+
+    it("keeps the capture controls enabled while generating", async () => {
+        const { stage } = mockStage({ max_poll_attempts: 50 });
+        server.api.setScenario({ mode: 'never' });
+
+        const capture = stage.captureScene();
+        await vi.waitFor(() => expect(stage['generationQueue'].jobs[0]?.progress).toMatch(/^Generating/));
+        const markup = renderToStaticMarkup(stage.render());
+        expect(markup).toContain("➕ Queue another");
+        expect(markup).not.toContain("disabled");
+
+        stage.cancelJob(stage['generationQueue'].jobs[0].id);
+        await capture;
+    });
+
+    it("cancels a running capture", async () => {
+        const { stage } = mockStage({ max_poll_attempts: 50 });
+        server.api.setScenario({ mode: 'never' });
+
+        const capture = stage.captureScene();
+        await vi.waitFor(() => expect(stage['generationQueue'].jobs[0]?.progress).toMatch(/^Generating/));
+        stage.cancelJob(stage['generationQueue'].jobs[0].id);
+        await capture;
+
+        expect(stage['generationQueue'].jobs).toHaveLength(0);
+        expect(stage.visualState.generationProgress).toBe("Capture cancelled");
+        expect(stage.visualState.errorMessage).toBeUndefined();
+        expect(stage['chronicleEntries']).toHaveLength(0);
+    });
+
+    it("saves submitted generations and resumes them after a reload", async () => {
+        const { stage } = mockStage({ max_poll_attempts: 1 });
+        const saveChatState = vi.spyOn(stage.messenger, 'updateChatState');
+        server.api.setScenario({ mode: 'polls', polls: 3 });
+        await playTranscript(stage, LIBRARY_TRANSCRIPT);
+
+        await stage.captureScene();
+
+        const saved = saveChatState.mock.calls.map(([state]) => state.pending_jobs).find(jobs => jobs && jobs.length > 0)!;
+        expect(saved).toHaveLength(1);
+        expect(saved[0]).toMatchObject({ kind: 'capture', providerJobId: expect.stringMatching(/^mock-/) });
+        expect(saveChatState).toHaveBeenLastCalledWith(expect.objectContaining({ pending_jobs: undefined }));
+
+        const reloaded = createTestStage({ image_api_base_url: server.url, poll_interval_ms: 5, max_poll_attempts: 4 }, {
+            chatState: { pending_jobs: saved }
+        });
+        await reloaded.load();
+        await reloaded['resumeRun'];
+
+        expect(server.api.requests.filter(request => request.path === "/check")).toHaveLength(3);
+        expect(reloaded['chronicleEntries']).toHaveLength(1);
+        expect(reloaded['chronicleEntries'][0]).toMatchObject({ kind: 'capture', sceneContext: { location: "library" } });
+        expect(reloaded.visualState.lastGeneratedImage).toContain(`${saved[0].providerJobId}.svg`);
+    });
+});
+
+describe("scene gallery", () => {
+    const entry = (id: string, imageUrl: string) => ({
+        id,
+        kind: 'capture' as const,
+        imageUrl,
+        prompt: "anime scene",
+        sceneContext: {
+            characters: [],
+            location: "library",
+            actions: "talking",
+            mood: "peaceful",
+            timeOfDay: "evening"
+        },
+        seed: 0,
+        provider: 'chub' as const,
+        timestamp: 0
+    });
+
+    function galleryStage() {
+        const stage = createTestStage({}, {
+            chatState: { chronicle_entries: [entry("a", "first.png"), entry("b", "second.png")] }
+        });
+        stage['forceUpdate'] = () => {};
+        return stage;
+    }
+
+    it("restores saved entries and shows the latest one", () => {
+        const stage = galleryStage();
+
+        expect(stage['chronicleEntries']).toHaveLength(2);
+        expect(stage.visualState.lastGeneratedImage).toBe("second.png");
+        expect(stage.visualState.selectedEntryId).toBe("b");
+    });
+
+    it("opens an older entry", () => {
+        const stage = galleryStage();
+
+        stage.openChronicleEntry("a");
+
+        expect(stage.visualState.lastGeneratedImage).toBe("first.png");
+        expect(stage.visualState.selectedEntryId).toBe("a");
+    });
+
+    it("deletes entries and falls back to the latest remaining one", () => {
+        const stage = galleryStage();
+        const saveChatState = vi.spyOn(stage.messenger, 'updateChatState');
+
+        stage.deleteChronicleEntry("b");
+
+        expect(stage['chronicleEntries'].map(saved => saved.id)).toEqual(["a"]);
+        expect(stage.visualState.lastGeneratedImage).toBe("first.png");
+        expect(saveChatState).toHaveBeenCalledWith({ chronicle_entries: [entry("a", "first.png")] });
+
+        stage.deleteChronicleEntry("a");
+
+        expect(stage.visualState.lastGeneratedImage).toBeUndefined();
+        expect(stage.visualState.selectedEntryId).toBeUndefined();
+    });
+});
+
+describe("setState", () => {
+    const sceneImage = {
+        entryId: "old",
+        imageUrl: "old.png",
+        prompt: "anime scene",
+        sceneContext: { characters: ["Janessa"], location: "cafe", actions: "talking", mood: "happy", timeOfDay: "morning" }
+    };
+
+    it("restores the image and history stored with a message", async () => {
+        const stage = createTestStage();
+        stage['forceUpdate'] = () => {};
+        await playTranscript(stage, ["Hi", "Hello"]);
+
+        await stage.setState({ message_history: [], scene_image: sceneImage });
+
+        expect(stage.visualState.lastGeneratedImage).toBe("old.png");
+        expect(stage.visualState.sceneContext?.location).toBe("cafe");
+        expect(stage['getCurrentMessageHistory']()).toEqual([]);
+    });
+
+    it("clears the image when jumping back before any capture", async () => {
+        const stage = createTestStage({}, { messageState: { scene_image: sceneImage } });
+        expect(stage.visualState.lastGeneratedImage).toBe("old.png");
+
+        await stage.setState({ message_history: [] });
+
+        expect(stage.visualState.lastGeneratedImage).toBeUndefined();
+        expect(stage.visualState.selectedEntryId).toBeUndefined();
+    });
+});
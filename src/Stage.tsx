@@ -1,7 +1,38 @@
 import {ReactElement} from "react";
 import {StageBase, StageResponse, InitialData, Message} from "@chub-ai/stages-ts";
 import {LoadResponse} from "@chub-ai/stages-ts/dist/types/load";
-import axios from "axios";
+import {CharacterDetector} from "./scene/CharacterDetector";
+import {CharacterRoster, describeAppearance} from "./scene/CharacterRoster";
+import {AutoCapturePolicy} from "./scene/AutoCapturePolicy";
+import {describeChange, FramePosition, SceneCharacter, SceneConfidence, SceneContext, SceneTracker, SceneTrackerState} from "./scene/SceneTracker";
+import {extractSceneDetails} from "./scene/SceneDetails";
+import {scoreKeywords, ScoredValue} from "./scene/KeywordScorer";
+import {generatorCompletion, LlmSceneAnalyzer, poeCompletion} from "./scene/SceneAnalyzer";
+import {applyEdits, applyPin, EditableField, fieldEdit, pinEdits, PinnedScene} from "./scene/ScenePins";
+import {DEFAULT_TEMPLATE, NARRATIVE_TEMPLATE, PromptPreset, renderTemplate, resolvePromptPreset} from "./scene/PromptTemplates";
+import {narrativeExcerpt, Narrator} from "./scene/Narrator";
+import {correctionFor, ImageVerifier, poeVision, VerificationResult} from "./scene/ImageVerifier";
+import {imageMessage, sceneDirections} from "./scene/SceneDirections";
+import {parseSceneCommands, SCENE_COMMAND_HELP, SceneCommand} from "./scene/SceneCommands";
+import {CharacterReference, ChubReferenceClient} from "./references/ChubReferenceClient";
+import {GenerationJob, GenerationJobKind, GenerationQueue} from "./jobs/GenerationQueue";
+import {Store} from "./store/Store";
+import {downloadFile, ExportFile, exportStorybook, StorybookFormat, StorybookScene} from "./export/Storybook";
+import {StoreView} from "./store/StoreView";
+import {generateUUID} from "./util";
+import {
+    CHUB_API_BASE_URL,
+    createImageProvider,
+    GenerationSettings,
+    ImageApiError,
+    ImageErrorKind,
+    ImageGenerationRequest,
+    ImageProvider,
+    ImageProviderId,
+    POE_API_BASE_URL,
+    resolveGenerationSettings,
+    seedFor
+} from "./providers";
 
 /***
  NLU Narrator Stage - Campus chronicler for Law Hearts & Hidden Connections universe
@@ -13,30 +44,93 @@ type MessageStateType = {
     scene_context?: any;
     narrator_active?: boolean;
     message_history?: ConversationMessage[];
+    scene_image?: SceneImage;
+    scene_tracker?: SceneTrackerState;
 };
 
+// The narrator's chronicle for one bot message, kept whether or not an image was captured there
+interface NarrativeEntry {
+    messageId: string;
+    narrative: string;
+    timestamp: number;
+}
+
+// The scene shown at this point in the story, carried forward from message to message
+interface SceneImage {
+    entryId: string;
+    imageUrl: string;
+    prompt: string;
+    sceneContext: SceneContext;
+}
+
 // Message history tracking
 interface ConversationMessage {
     content: string;
     isUser: boolean;
     timestamp: number;
     messageId?: string;
+    speakerId?: string;
 }
 
 type ConfigType = {
-    // Legacy narrator settings (optional)
+    // Narrator: a short chronicle of the scene after each bot response, on the chat's model or narrator_model on Poe
     poe_api_key?: string;
     narrator_model?: string;
     campus_name?: string;
+    // brief, detailed or immersive
     narrative_style?: string;
+    enable_narrator?: boolean;
+    // Start image prompts from the latest narrative (the default template only; custom ones can use {narrative})
+    narrative_prompt?: boolean;
+    narrator_timeout_ms?: number;
     
     // Visual Scene Composer settings
     chub_api_key?: string;
-    image_api_provider?: 'chub' | 'poe-flux';
+    image_api_provider?: ImageProviderId;
     image_quality?: 'standard' | 'high';
+    // Generation parameters, checked against the provider's limits at load
+    aspect_ratio?: 'square' | 'portrait' | 'landscape' | 'banner';
+    negative_prompt?: string;
+    seed_mode?: 'fixed' | 'random' | 'scene';
+    seed?: number;
+    guidance_scale?: number;
+    steps?: number;
+    img2img_strength?: number;
+    // Manual captures generate this many variants in parallel and let the user keep one
+    candidates_per_capture?: number;
+    candidate_variation?: 'seed' | 'prompt';
     max_characters?: number;
+    // 'llm' asks a text model (narrator_model on Poe when poe_api_key is set, else the chat's model) to read the scene
+    scene_analysis?: 'keywords' | 'llm';
+    scene_analysis_timeout_ms?: number;
     scene_style?: string;
+    // A preset name (cinematic, anime, realistic, artistic) or a custom template with {placeholders}
+    prompt_template?: string;
     enable_refinement?: boolean;
+    // Refinement checks each image with a Poe vision bot and regenerates up to max_refinements times
+    vision_model?: string;
+    max_refinements?: number;
+    // "Name=creator/slug, Other=12345" - Chub projects to take character references from
+    character_projects?: string;
+    // Automatic capture from afterResponse; both triggers share the cooldown and budget
+    auto_capture_every?: number;
+    auto_capture_on_scene_change?: boolean;
+    auto_capture_cooldown_ms?: number;
+    auto_capture_budget?: number;
+    // Feed the tracked scene back to the bot as stage directions
+    scene_directions?: boolean;
+    // Post each generated image into the chat as a system message with the next beforePrompt/afterResponse
+    post_images_to_chat?: boolean;
+    
+    // Development/testing overrides
+    image_api_base_url?: string;
+    vision_api_base_url?: string;
+    poll_interval_ms?: number;
+    max_poll_interval_ms?: number;
+    max_poll_attempts?: number;
+    generation_timeout_ms?: number;
+    max_retries?: number;
+    retry_delay_ms?: number;
 };
 
 type InitStateType = {
@@ -44,147 +138,375 @@ type InitStateType = {
 };
 
 type ChatStateType = {
-    chronicle_entries?: any[];
+    chronicle_entries?: ChronicleEntry[];
+    narratives?: NarrativeEntry[];
+    pinned_scene?: PinnedScene;
+    // Submitted generations to resume polling after a reload
+    pending_jobs?: GenerationJob[];
+    // Set with /scene style and /scene off
+    scene_style?: string;
+    composer_paused?: boolean;
 };
 
-// Visual Scene Composer interfaces
-interface SceneContext {
-    characters: string[];
-    location: string;
-    actions: string;
-    mood: string;
-    timeOfDay: string;
+// A saved scene image; every capture and refinement becomes one
+interface ChronicleEntry {
+    id: string;
+    kind: 'capture' | 'refinement';
+    imageUrl: string;
+    prompt: string;
+    sceneContext: SceneContext;
+    seed: number;
+    provider: ImageProviderId;
+    timestamp: number;
+    parentImage?: string;
+    // Latest bot message when the image was generated
+    messageId?: string;
+    // The narrator's chronicle at that point, when the narrator is on
+    narrative?: string;
+    // Text of that bot message, for the storybook export
+    message?: string;
+}
+
+// Result of a successful generateSceneImage call
+interface GeneratedImage {
+    imageUrl: string;
+    prompt: string;
+    seed: number;
+    provider: ImageProviderId;
 }
 
-interface CharacterReference {
-    characterId: string;
-    name: string;
-    avatarUrl: string;
-    galleryImages: string[];
-    description: string;
+// A parsed scene being reviewed and corrected before it is generated
+interface ScenePreview {
+    // As parsed, before pinned or manual edits
+    parsed: SceneContext;
+    context: SceneContext;
+    prompt: string;
+    // A hand-written prompt is no longer rebuilt from the fields
+    promptEdited: boolean;
+    pin: boolean;
 }
 
+// Variants from one capture, waiting for the user to keep one
+interface CaptureCandidates {
+    images: GeneratedImage[];
+    sceneContext: SceneContext;
+}
+
+// Visual Scene Composer interfaces
 interface VisualComposerState {
     currentNarrative: string;
     sceneDetails: any;
     isGenerating: boolean;
     lastGeneratedImage?: string;
+    selectedEntryId?: string;
     sceneContext?: SceneContext;
+    preview?: ScenePreview;
+    candidates?: CaptureCandidates;
     availableCharacters: CharacterReference[];
     generationProgress: string;
     errorMessage?: string;
     isRefining: boolean;
+    isExporting: boolean;
     lastGenerationTime?: number;
     generationStats: {
         totalGenerations: number;
         successfulGenerations: number;
         lastError?: string;
+        lastErrorKind?: ImageErrorKind;
+        errorsByKind: Partial<Record<ImageErrorKind, number>>;
     };
 }
 
 export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateType, ConfigType> {
     
-    // Visual Scene Composer state
-    visualState: VisualComposerState;
+    // Visual Scene Composer state; the rendered view subscribes to it
+    readonly visualStore: Store<VisualComposerState>;
+
+    get visualState(): VisualComposerState {
+        return this.visualStore.state;
+    }
     
     // Current message state for tracking
     private currentMessageState: MessageStateType;
     
+    // Saved scene gallery, persisted in chat state
+    private chronicleEntries: ChronicleEntry[];
+    // Narrator chronicles by bot message, persisted in chat state
+    private narratives: NarrativeEntry[];
+    
+    // Manual scene corrections kept for later captures, persisted in chat state
+    private pinnedScene?: PinnedScene;
+    
     // Configuration
     private poeApiKey: string;
     private chubApiKey: string;
-    private imageApiProvider: 'chub' | 'poe-flux';
+    private imageApiProvider: ImageProviderId;
     private imageQuality: 'standard' | 'high';
     private maxCharacters: number;
     private sceneStyle: string;
+    private styleOverride?: string;
+    private promptTemplate: string;
+    private promptPreset: PromptPreset;
     private enableRefinement: boolean;
+    private maxRefinements: number;
+    private imageProvider: ImageProvider;
+    private generationQueue: GenerationQueue;
+    private restoredJobs: GenerationJob[];
+    private savedJobsKey: string;
+    private resumeRun?: Promise<void>;
+    private activeCaptures: number = 0;
+    // Candidate sets behind the one in the grid, oldest first
+    private waitingCandidates: CaptureCandidates[] = [];
+    private generationSettings: GenerationSettings;
+    // Config values that were clamped or ignored, shown in the panel
+    private settingsWarnings: string[];
+    private candidateCount: number;
+    private candidateVariation: 'seed' | 'prompt';
+    private imageApiBaseUrl: string;
+    
+    // Character roster and detection seeded with the chat's characters and users
+    private roster: CharacterRoster;
+    private characterDetector: CharacterDetector;
+    
+    // Running scene state, updated from every message
+    private sceneTracker: SceneTracker;
+    private sceneAnalyzer?: LlmSceneAnalyzer;
+    
+    // Compares generated images with the scene for refinement; unset without a vision backend
+    private imageVerifier?: ImageVerifier;
+    
+    // Chub avatar/gallery lookups, cached per character
+    private referenceClient: ChubReferenceClient;
+    private characterProjects: Record<string, string>;
+    
+    // Automatic capture triggers, checked after each bot message
+    private autoCapture: AutoCapturePolicy;
+    private autoCaptureRun?: Promise<void>;
     
-    // Legacy narrator settings
+    // Feedback into the conversation; images wait here for the next hook, which is the only way to post
+    private sceneDirectionsEnabled: boolean;
+    private postImagesToChat: boolean;
+    private pendingImagePosts: { imageUrl: string, message: string }[] = [];
+    
+    // /scene off pauses automatic captures, stage directions and image posts for the chat
+    private composerPaused: boolean;
+    private commandRun?: Promise<void>;
+    
+    // Narrator settings; the narrator itself is unset unless enable_narrator is on
     private narratorModel: string;
     private campusName: string;
     private narrativeStyle: string;
+    private narrator?: Narrator;
+    private narrativePrompt: boolean;
+    // Narration runs in the background once the bot has answered
+    private narrationRun?: Promise<void>;
 
     constructor(data: InitialData<InitStateType, ChatStateType, MessageStateType, ConfigType>) {
         super(data);
-        const { config, messageState } = data;
+        const { config, messageState, chatState } = data;
         
         // Initialize Visual Scene Composer configuration
         this.chubApiKey = config?.chub_api_key || "";
         this.imageApiProvider = config?.image_api_provider || "chub";
         this.imageQuality = config?.image_quality || "standard";
         this.maxCharacters = config?.max_characters || 3;
-        this.sceneStyle = config?.scene_style || "cinematic";
+        this.promptTemplate = config?.prompt_template || "";
+        this.styleOverride = chatState?.scene_style;
+        this.sceneStyle = this.styleOverride || config?.scene_style || "cinematic";
+        this.promptPreset = resolvePromptPreset(this.sceneStyle, this.promptTemplate);
+        this.composerPaused = chatState?.composer_paused || false;
         this.enableRefinement = config?.enable_refinement || false;
+        this.maxRefinements = config?.max_refinements ?? 2;
+        this.imageApiBaseUrl = config?.image_api_base_url || "";
+        this.sceneDirectionsEnabled = config?.scene_directions || false;
+        this.postImagesToChat = config?.post_images_to_chat || false;
         
-        // Legacy narrator configuration
+        // Narrator configuration
         this.poeApiKey = config?.poe_api_key || "";
         this.narratorModel = config?.narrator_model || "GPT-5-nano";
         this.campusName = config?.campus_name || "National Law University";
         this.narrativeStyle = config?.narrative_style || "detailed";
+        this.narrativePrompt = config?.narrative_prompt || false;
+        
+        // Text model for scene analysis and the narrator
+        const completion = this.poeApiKey ?
+            poeCompletion(this.poeApiKey, this.narratorModel) :
+            generatorCompletion(this.generator);
+        
+        // Optional LLM scene analysis; keyword extraction stays as the fallback
+        if (config?.scene_analysis === 'llm') {
+            this.sceneAnalyzer = new LlmSceneAnalyzer(completion, config?.scene_analysis_timeout_ms || 15000);
+        }
+        if (config?.enable_narrator) {
+            this.narrator = new Narrator(completion, {
+                campusName: this.campusName,
+                style: this.narrativeStyle,
+                timeoutMs: config?.narrator_timeout_ms || 15000
+            });
+        }
+        
+        // Image verification through a Poe vision bot (or the mock at vision_api_base_url in development)
+        if (this.poeApiKey || config?.vision_api_base_url) {
+            this.imageVerifier = new ImageVerifier(poeVision(this.poeApiKey, config?.vision_model || "GPT-4o-mini",
+                config?.vision_api_base_url || POE_API_BASE_URL));
+        }
+        
+        // Image backend selected by image_api_provider
+        this.imageProvider = createImageProvider(this.imageApiProvider, {
+            chubApiKey: this.chubApiKey,
+            poeApiKey: this.poeApiKey,
+            baseUrl: this.imageApiBaseUrl
+        });
+        const { settings, warnings } = resolveGenerationSettings({
+            aspectRatio: config?.aspect_ratio,
+            negativePrompt: config?.negative_prompt,
+            seedMode: config?.seed_mode,
+            seed: config?.seed,
+            guidanceScale: config?.guidance_scale,
+            steps: config?.steps,
+            strength: config?.img2img_strength,
+            quality: this.imageQuality
+        }, this.imageProvider.capabilities());
+        warnings.forEach(warning => console.warn(`Generation settings: ${warning}`));
+        this.generationSettings = settings;
+        this.settingsWarnings = warnings;
+        this.candidateCount = Math.min(MAX_CANDIDATES, Math.max(1, Math.round(config?.candidates_per_capture || 1)));
+        this.candidateVariation = config?.candidate_variation || 'seed';
+        this.generationQueue = new GenerationQueue(this.imageProvider, {
+            concurrency: MAX_CANDIDATES,
+            pollIntervalMs: config?.poll_interval_ms || 2000,
+            maxPollIntervalMs: config?.max_poll_interval_ms || 16000,
+            maxPollAttempts: config?.max_poll_attempts || 60,
+            maxWaitMs: config?.generation_timeout_ms || 120000,
+            retry: {
+                retries: config?.max_retries ?? 3,
+                baseDelayMs: config?.retry_delay_ms ?? 1000,
+                maxDelayMs: 30000
+            }
+        }, this.onJobChange);
+        this.restoredJobs = chatState?.pending_jobs || [];
+        this.savedJobsKey = jobsKey(this.restoredJobs);
+        
+        // Character roster from the chat's cards, keyed by the anonymized ids that messages carry
+        this.roster = CharacterRoster.fromInitialData(data.characters, data.users);
+        this.characterDetector = new CharacterDetector(this.roster.knownCharacters());
+        this.characterProjects = parseCharacterProjects(config?.character_projects || "");
+        this.referenceClient = new ChubReferenceClient(this.chubApiKey, this.imageApiBaseUrl || CHUB_API_BASE_URL);
+        this.autoCapture = new AutoCapturePolicy({
+            everyMessages: config?.auto_capture_every || 0,
+            onSceneChange: config?.auto_capture_on_scene_change || false,
+            cooldownMs: config?.auto_capture_cooldown_ms ?? 60000,
+            budget: config?.auto_capture_budget ?? 10
+        });
         
         // Initialize current message state
         this.currentMessageState = messageState || {};
+        this.sceneTracker = new SceneTracker(this.maxCharacters, messageState?.scene_tracker);
+        if (!messageState?.scene_tracker) {
+            // Chats saved before scene tracking: rebuild it from the stored history
+            const history = this.getCurrentMessageHistory();
+            history.forEach((_, index) => this.observeScene(history.slice(0, index + 1)));
+        }
+        this.chronicleEntries = chatState?.chronicle_entries || [];
+        this.narratives = chatState?.narratives || [];
+        this.pinnedScene = chatState?.pinned_scene;
+        const latestEntry = this.chronicleEntries[this.chronicleEntries.length - 1];
+        const sceneImage = this.sceneImageFor(this.currentMessageState) || (latestEntry && sceneImageOf(latestEntry));
         
         // Initialize Visual Scene Composer state
-        this.visualState = {
+        this.visualStore = new Store<VisualComposerState>({
             currentNarrative: messageState?.last_narrative || "",
             sceneDetails: messageState?.scene_context || {},
             isGenerating: false,
-            lastGeneratedImage: undefined,
-            sceneContext: undefined,
+            lastGeneratedImage: sceneImage?.imageUrl,
+            selectedEntryId: sceneImage?.entryId,
+            sceneContext: sceneImage?.sceneContext,
             availableCharacters: [],
             generationProgress: "Ready",
             errorMessage: undefined,
             isRefining: false,
+            isExporting: false,
             lastGenerationTime: undefined,
             generationStats: {
                 totalGenerations: 0,
                 successfulGenerations: 0,
-                lastError: undefined
+                lastError: undefined,
+                errorsByKind: {}
             }
-        };
+        });
     }
 
     async load(): Promise<Partial<LoadResponse<InitStateType, ChatStateType, MessageStateType>>> {
+        if (this.restoredJobs.length > 0) {
+            this.resumeRun = this.resumeJobs(this.restoredJobs);
+            this.restoredJobs = [];
+        }
         return {
             success: true,
             error: null,
-            initState: { narrator_active: false },
-            chatState: { chronicle_entries: [] },
+            initState: { narrator_active: !!this.narrator },
+            chatState: this.chatState(),
         };
     }
 
     async setState(state: MessageStateType): Promise<void> {
         if (state != null) {
-            this.visualState = {
-                ...this.visualState,
-                currentNarrative: state.last_narrative || this.visualState.currentNarrative,
-                sceneDetails: state.scene_context || this.visualState.sceneDetails
-            };
+            // Swiping or jumping back restores that branch's history and the scene shown there
+            const sceneImage = this.sceneImageFor(state);
+            this.currentMessageState = { ...state, scene_image: sceneImage };
+            this.sceneTracker = new SceneTracker(this.maxCharacters, state.scene_tracker);
+            this.visualStore.update({
+                currentNarrative: this.narrativeFor(latestBotMessageId(state.message_history || [])) || state.last_narrative || this.visualState.currentNarrative,
+                sceneDetails: state.scene_context || this.visualState.sceneDetails,
+                lastGeneratedImage: sceneImage?.imageUrl,
+                selectedEntryId: sceneImage?.entryId,
+                sceneContext: sceneImage?.sceneContext
+            });
         }
     }
 
-    // Legacy narrator functions removed - Visual Scene Composer only
+    // Images generated while this state's bot message was the latest win over the carried-forward scene
+    private sceneImageFor(state: MessageStateType): SceneImage | undefined {
+        const messageId = latestBotMessageId(state.message_history || []);
+        const captured = messageId ? this.chronicleEntries.filter(entry => entry.messageId === messageId) : [];
+        const entry = captured[captured.length - 1];
+        return entry ? sceneImageOf(entry) : state.scene_image;
+    }
+
+    // A chronicle that finished after its message state went out is only in chat state
+    private narrativeFor(messageId?: string): string | undefined {
+        return messageId ? this.narratives.find(entry => entry.messageId === messageId)?.narrative : undefined;
+    }
 
     async beforePrompt(userMessage: Message): Promise<Partial<StageResponse<ChatStateType, MessageStateType>>> {
         // Store user message in history for context tracking
         console.log('DEBUG: beforePrompt called with message:', userMessage.content);
-        const { content } = userMessage;
-        const updatedHistory = this.addMessageToHistory(content, true);
-        console.log('DEBUG: Updated history after beforePrompt:', updatedHistory.length, 'messages');
-        
-        // Update internal state
-        this.currentMessageState = {
-            scene_context: { lastUserMessage: content },
-            narrator_active: false,
-            message_history: updatedHistory
-        };
+        const { anonymizedId, identity } = userMessage;
+        // /scene command lines are handled here and never reach the bot
+        const { commands, message: content } = parseSceneCommands(userMessage.content);
+        // A message that was only commands says nothing about the scene
+        if (content || commands.length === 0) {
+            const updatedHistory = this.addMessageToHistory(content, true, anonymizedId, identity);
+            console.log('DEBUG: Updated history after beforePrompt:', updatedHistory.length, 'messages');
+            this.observeScene(updatedHistory);
+            
+            // Update internal state
+            this.currentMessageState = {
+                scene_context: { lastUserMessage: content },
+                last_narrative: this.currentMessageState.last_narrative,
+                narrator_active: !!this.narrator,
+                message_history: updatedHistory,
+                scene_image: this.currentMessageState.scene_image,
+                scene_tracker: this.sceneTracker.toState()
+            };
+        }
+        const reports = this.runSceneCommands(commands);
         
         return {
-            stageDirections: null,
+            stageDirections: this.sceneDirectionsEnabled && !this.composerPaused ? sceneDirections(this.sceneTracker.toState()) : null,
             messageState: this.currentMessageState,
-            modifiedMessage: null,
-            systemMessage: null,
+            modifiedMessage: commands.length > 0 ? content : null,
+            systemMessage: this.takeImagePosts(reports),
             error: null,
             chatState: null,
         };
@@ -193,9 +515,10 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
     async afterResponse(botMessage: Message): Promise<Partial<StageResponse<ChatStateType, MessageStateType>>> {
         // Store bot message in history for context tracking
         console.log('DEBUG: afterResponse called with message:', botMessage.content);
-        const { content } = botMessage;
-        const updatedHistory = this.addMessageToHistory(content, false);
+        const { content, anonymizedId, identity } = botMessage;
+        const updatedHistory = this.addMessageToHistory(content, false, anonymizedId, identity);
         console.log('DEBUG: Updated history after afterResponse:', updatedHistory.length, 'messages');
+        this.observeScene(updatedHistory);
         
         // Update internal state
         this.currentMessageState = {
@@ -203,28 +526,142 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
                 lastBotMessage: content,
                 messageCount: updatedHistory.length
             },
-            narrator_active: false,
-            message_history: updatedHistory
+            last_narrative: this.currentMessageState.last_narrative,
+            narrator_active: !!this.narrator,
+            message_history: updatedHistory,
+            scene_image: this.currentMessageState.scene_image,
+            scene_tracker: this.sceneTracker.toState()
         };
         
+        // The narrator writes in the background; the chronicle is saved through the messenger when it is done
+        this.narrationRun = this.narrate(latestBotMessageId(updatedHistory));
+        
+        // Auto-capture runs in the background so the response is not held up by generation.
+        // It waits for the narration so its prompt can start from the new chronicle
+        if (this.autoCapture.enabled && !this.composerPaused) {
+            const reason = this.autoCapture.evaluate(this.sceneTracker.current, Date.now());
+            if (reason && !this.visualState.isGenerating) {
+                console.log(`Auto-capturing scene (${reason})`);
+                this.autoCaptureRun = this.narrationRun.then(() => this.runCapture(true));
+            }
+        }
+        
         return {
             stageDirections: null,
             messageState: this.currentMessageState,
             modifiedMessage: null,
-            systemMessage: null,
+            systemMessage: this.takeImagePosts(),
             error: null,
             chatState: null
         };
     }
 
+    // Command results first, then any images waiting to be posted
+    private takeImagePosts(reports: string[] = []): string | null {
+        const messages = [...reports, ...this.pendingImagePosts.map(post => post.message)];
+        this.pendingImagePosts = [];
+        return messages.length > 0 ? messages.join("\n\n") : null;
+    }
+
+    // A new chronicle of the scene for the given bot message; a failed one keeps the last chronicle
+    private async narrate(messageId?: string): Promise<void> {
+        if (!this.narrator) {
+            return;
+        }
+        const messages = this.getCurrentMessageHistory().slice(-6).map(message => ({
+            speaker: this.speakerName(message),
+            content: message.content
+        }));
+        const narrative = await this.narrator.narrate(messages, this.sceneTracker.current);
+        if (narrative) {
+            this.recordNarrative(narrative, messageId);
+        }
+    }
+
+    // Saved by bot message, and onto the images captured there before the chronicle was done
+    private recordNarrative(narrative: string, messageId?: string) {
+        if (messageId) {
+            this.narratives = [
+                ...this.narratives.filter(entry => entry.messageId !== messageId),
+                { messageId, narrative, timestamp: Date.now() }
+            ].slice(-MAX_STORED_NARRATIVES);
+            this.chronicleEntries = this.chronicleEntries.map(entry =>
+                entry.messageId === messageId && !entry.narrative ? { ...entry, narrative } : entry);
+        }
+        // Shown, and carried by the next message state, unless the chat has moved to another message
+        if (latestBotMessageId(this.getCurrentMessageHistory()) === messageId) {
+            this.currentMessageState = { ...this.currentMessageState, last_narrative: narrative };
+            this.visualStore.update({ currentNarrative: narrative });
+        }
+        this.saveChatState();
+    }
+
+    // Acts on /scene commands; returns a line for each to report back in the chat
+    private runSceneCommands(commands: SceneCommand[]): string[] {
+        const reports: string[] = [];
+        for (const command of commands) {
+            switch (command.kind) {
+                case 'capture':
+                    // In the background like auto-capture, so the message is not held up
+                    this.commandRun = this.captureScene();
+                    reports.push("📸 Capturing the scene...");
+                    break;
+                case 'reroll':
+                    this.commandRun = this.rerollScene();
+                    reports.push(this.visualState.sceneContext ? "🎲 Rerolling the scene image..." : "📸 Nothing to reroll yet - capturing the scene...");
+                    break;
+                case 'style':
+                    this.setSceneStyle(command.style);
+                    reports.push(`🎨 Scene style set to ${command.style}`);
+                    break;
+                case 'set':
+                    this.pinSceneField(command.field, command.value);
+                    reports.push(`📌 Scene ${command.field === 'timeOfDay' ? 'time' : command.field} pinned to ${command.value}`);
+                    break;
+                case 'off':
+                case 'on':
+                    this.composerPaused = command.kind === 'off';
+                    this.saveChatState();
+                    this.forceUpdate();
+                    reports.push(this.composerPaused ? "⏸️ Scene composer paused - /scene on to resume" : "▶️ Scene composer resumed");
+                    break;
+                case 'help':
+                    reports.push(command.unknown ? `Unknown scene command "${command.unknown}". ${SCENE_COMMAND_HELP}` : SCENE_COMMAND_HELP);
+                    break;
+            }
+        }
+        return reports;
+    }
+
+    private setSceneStyle(style: string) {
+        this.styleOverride = style;
+        this.sceneStyle = style;
+        this.promptPreset = resolvePromptPreset(style, this.promptTemplate);
+        this.saveChatState();
+        this.forceUpdate();
+    }
+
+    // Same as correcting the field in the preview with the pin kept. Pinned against the tracked
+    // scene as it stands, so the message is not held up by a fresh analysis
+    private pinSceneField(field: EditableField, value: string) {
+        const parsed = this.trackedScene();
+        const edited = applyEdits(this.applyPinnedEdits(parsed), fieldEdit(field, value));
+        this.pinnedScene = pinEdits(parsed, edited);
+        this.saveChatState();
+    }
+
     // Legacy toggle function removed
 
-    // Character reference fetching from Chub Gallery (disabled due to API format issues)
+    // Character reference fetching from Chub (avatar + gallery), only for the chat's own characters
     private async fetchCharacterReference(characterName: string): Promise<CharacterReference | null> {
-        // Skip character reference fetching for now due to API format mismatch
-        // This prevents 422 errors and allows basic text2img generation to work
-        console.log(`Skipping character reference fetch for: ${characterName}`);
-        return null;
+        const entry = this.roster.find(characterName);
+        if (!entry || entry.isUser) {
+            return null;
+        }
+        return this.referenceClient.fetchReference({
+            name: entry.name,
+            project: this.characterProjects[entry.name.toLowerCase()] || entry.chubProject
+        });
     }
 
     private async enrichSceneWithCharacterRefs(sceneContext: SceneContext): Promise<SceneContext> {
@@ -249,121 +686,155 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
         };
     }
 
-    // Visual Scene Composer - Chub Image API Integration
-    private async generateSceneImage(prompt: string, referenceUrl?: string): Promise<string | null> {
-        if (!this.chubApiKey) {
-            console.error("No Chub API key configured");
+    // Visual Scene Composer - image generation through the configured provider. Queues one job and
+    // resolves with it once done, failed or cancelled; null when the provider is not configured.
+    // seedOffset tells the variants of one capture apart
+    private async generateSceneImage(kind: GenerationJobKind, prompt: string, sceneContext: SceneContext, referenceUrl?: string, seedOffset: number = 0): Promise<GenerationJob | null> {
+        if (!this.imageProvider.isConfigured()) {
+            console.error(`No ${this.imageProvider.label} API key configured`);
             return null;
         }
 
-        const baseUrl = "https://api.chub.ai";
-        const endpoint = referenceUrl ? "/images/img2img" : "/images/text2img";
-        
-        const payload: any = {
+        // A refinement descends from its source image even when the provider cannot take it as a reference
+        const parentImage = kind === 'refinement' ? referenceUrl : undefined;
+        const capabilities = this.imageProvider.capabilities();
+        if (referenceUrl && !capabilities.img2img) {
+            console.log(`${this.imageProvider.label} does not support reference images; using text2img`);
+            referenceUrl = undefined;
+        }
+
+        const settings = this.generationSettings;
+        const request: ImageGenerationRequest = {
             prompt: prompt,
-            width: 1024,
-            height: 1024,
-            num_inference_steps: this.imageQuality === 'high' ? 50 : 30,
-            guidance_scale: 3.5,
-            seed: 0,
-            extension_source: "Visual Scene Composer",
-            chat_id: "stage",
-            uuid: this.generateUUID(),
-            mode: "standard",
-            sub_mode: "default",
-            parent_image: "",
-            item_id: ""
+            negativePrompt: capabilities.negativePrompt ? settings.negativePrompt || this.promptPreset.negativePrompt : undefined,
+            width: settings.width,
+            height: settings.height,
+            steps: settings.steps,
+            guidanceScale: settings.guidanceScale,
+            seed: (seedFor(settings, sceneSeedKey(sceneContext)) + seedOffset) >>> 0,
+            referenceUrl: referenceUrl,
+            strength: referenceUrl ? settings.strength : undefined
         };
 
-        if (referenceUrl) {
-            payload.init_image = referenceUrl;
-            payload.strength = 0.7;
+        const job = await this.generationQueue.enqueue({ kind, request, sceneContext, parentImage });
+        if (job.status === 'failed') {
+            console.error(`Generation failed (${job.errorKind}):`, job.error);
         }
+        return job;
+    }
 
-        try {
-            console.log('Sending image generation request:', payload);
-            
-            // Initial generation request
-            const response = await axios.post(`${baseUrl}${endpoint}`, payload, {
-                headers: {
-                    'CH-API-KEY': this.chubApiKey,
-                    'Content-Type': 'application/json'
-                },
-                timeout: 60000
-            });
+    // Progress and the saved pending jobs follow every job update
+    private onJobChange = (job: GenerationJob) => {
+        if (job.status === 'queued' || job.status === 'running') {
+            this.visualState.generationProgress = job.progress;
+        }
+        if (jobsKey(this.generationQueue.resumable) !== this.savedJobsKey) {
+            this.saveChatState();
+        }
+        this.forceUpdate();
+    }
 
-            console.log('Initial response:', response.data);
-            
-            const generationUuid = response.data?.generation_uuid;
-            if (!generationUuid) {
-                console.error("No generation UUID received", response.data);
-                return null;
+    cancelJob = (jobId: string) => {
+        this.generationQueue.cancel(jobId);
+    }
+
+    // Finishes generations a previous session submitted; their images go straight to the gallery
+    private async resumeJobs(jobs: GenerationJob[]) {
+        const resumed = jobs.map(job => {
+            const finished = this.generationQueue.resume(job);
+            if (!finished) {
+                console.warn(`Dropping saved ${job.provider} generation ${job.id}; it cannot be resumed with ${this.imageProvider.label}`);
             }
-            
-            console.log('Got generation UUID:', generationUuid);
+            return finished;
+        });
+        this.saveChatState();
 
-            // Check if image is already complete in initial response
-            if (response.data.is_done && response.data.primary_image_path) {
-                console.log('Image completed immediately:', response.data.primary_image_path);
-                return response.data.primary_image_path;
+        await Promise.all(resumed.map(async finished => {
+            const job = await finished;
+            if (job?.status === 'done') {
+                this.addChronicleEntry(job.kind, generatedImageOf(job), job.sceneContext, job.parentImage);
+                this.visualState.generationStats.successfulGenerations++;
+                this.forceUpdate();
             }
+        }));
+    }
 
-            // If not complete, poll for completion
-            const maxAttempts = 60;
-            const pollInterval = 2000;
+    // Main scene capture function - triggered by button press (public so the TestRunner can drive it)
+    captureScene = async () => {
+        await this.runCapture(false);
+    }
 
-            for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-                this.visualState.generationProgress = `Generating... ${attempt}/${maxAttempts}`;
-                this.forceUpdate();
+    // Another take on the shown scene; without one it is a plain capture
+    rerollScene = async () => {
+        const context = this.visualState.sceneContext;
+        if (!context) {
+            return this.captureScene();
+        }
+        const scene: ScenePreview = { parsed: context, context, prompt: this.createScenePrompt(context), promptEdited: false, pin: false };
+        await this.runCapture(false, scene, MAX_CANDIDATES + Math.floor(Math.random() * 100000));
+    }
 
-                await new Promise(resolve => setTimeout(resolve, pollInterval));
-
-                try {
-                    const checkResponse = await axios.post(`${baseUrl}/check`, {
-                        generation_uuid: generationUuid,
-                        request_type: "image"
-                    }, {
-                        headers: {
-                            'CH-API-KEY': this.chubApiKey,
-                            'Content-Type': 'application/json'
-                        },
-                        timeout: 5000
-                    });
-
-                    const result = checkResponse.data;
-                    console.log(`Poll attempt ${attempt}:`, result);
-
-                    // Check multiple possible completion indicators
-                    if (result.is_done || result.status === 'completed' || result.state === 'completed') {
-                        const imageUrl = result.primary_image_path || result.image_url || result.url;
-                        if (imageUrl) {
-                            console.log('Image completed via polling:', imageUrl);
-                            return imageUrl;
-                        }
-                        if (result.images && result.images.length > 0) {
-                            return result.images[0];
-                        }
-                    } else if (result.is_failed || result.status === 'failed' || result.state === 'error') {
-                        console.error("Generation failed:", result);
-                        return null;
-                    }
-                } catch (pollError) {
-                    console.warn(`Poll attempt ${attempt} failed:`, pollError);
-                }
-            }
+    // Preview step: parse the scene and show it for correction instead of generating straight away
+    previewScene = async () => {
+        const parsed = await this.parseSceneContext();
+        const context = this.applyPinnedEdits(parsed);
+        this.visualState.preview = {
+            parsed,
+            context,
+            prompt: this.createScenePrompt(context),
+            promptEdited: false,
+            pin: !!this.pinnedScene
+        };
+        this.forceUpdate();
+    }
 
-            console.error("Generation timed out");
-            return null;
-        } catch (error) {
-            console.error("Image generation error:", error);
-            return null;
+    editPreviewField = (field: EditableField, value: string) => {
+        const preview = this.visualState.preview;
+        if (!preview) return;
+        preview.context = applyEdits(preview.context, fieldEdit(field, value));
+        if (!preview.promptEdited) {
+            preview.prompt = this.createScenePrompt(preview.context);
         }
+        this.forceUpdate();
     }
 
-    // Main scene capture function - triggered by button press
-    private captureScene = async () => {
-        if (this.visualState.isGenerating) return;
-        
+    editPreviewPrompt = (prompt: string) => {
+        const preview = this.visualState.preview;
+        if (!preview) return;
+        preview.prompt = prompt;
+        preview.promptEdited = true;
+        this.forceUpdate();
+    }
+
+    togglePreviewPin = () => {
+        const preview = this.visualState.preview;
+        if (!preview) return;
+        preview.pin = !preview.pin;
+        this.forceUpdate();
+    }
+
+    cancelPreview = () => {
+        this.visualState.preview = undefined;
+        this.forceUpdate();
+    }
+
+    generateFromPreview = async () => {
+        const preview = this.visualState.preview;
+        if (!preview) return;
+        this.pinnedScene = preview.pin ? pinEdits(preview.parsed, preview.context) : undefined;
+        this.saveChatState();
+        this.visualState.preview = undefined;
+        await this.runCapture(false, preview);
+    }
+
+    // Captures started while another is running are queued behind it
+    // seedOffset moves every candidate's seed, so a reroll of the same scene comes out different
+    private async runCapture(automatic: boolean, preview?: ScenePreview, seedOffset: number = 0) {
+        // Nothing is generated without a provider, so that spends neither the budget nor the cooldown
+        if (this.imageProvider.isConfigured()) {
+            this.autoCapture.recordCapture(Date.now(), automatic, this.sceneTracker.current);
+        }
+        this.activeCaptures++;
         this.visualState.isGenerating = true;
         this.visualState.generationProgress = "Analyzing scene context...";
         this.forceUpdate();
@@ -374,8 +845,8 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
             this.visualState.generationStats.totalGenerations++;
             this.visualState.lastGenerationTime = Date.now();
             
-            // Parse scene context from recent messages
-            const basicSceneContext = await this.parseSceneContext();
+            // Parse scene context from recent messages, unless it was reviewed in the preview
+            const basicSceneContext = preview ? preview.context : this.applyPinnedEdits(await this.parseSceneContext());
             
             // Enrich with character references if available
             this.visualState.generationProgress = "Fetching character references...";
@@ -385,30 +856,31 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
             this.visualState.sceneContext = enrichedSceneContext;
             
             // Create initial scene prompt
-            const initialPrompt = this.createScenePrompt(enrichedSceneContext);
+            const initialPrompt = preview?.promptEdited ? preview.prompt : this.createScenePrompt(enrichedSceneContext);
             
             // Get character reference image for img2img if available
             const referenceUrl = this.getBestCharacterReference();
             
-            // Generate image
+            // Generate image; automatic captures make a single one so nobody has to pick
             this.visualState.generationProgress = "Generating scene image...";
             this.forceUpdate();
             
-            const imageUrl = await this.generateSceneImage(initialPrompt, referenceUrl);
+            const count = automatic ? 1 : this.candidateCount;
+            const jobs = await Promise.all(Array.from({ length: count }, (_, index) =>
+                this.generateSceneImage('capture', this.candidatePrompt(initialPrompt, index), enrichedSceneContext, referenceUrl, seedOffset + index)
+            ));
+            const images = jobs.filter((job): job is GenerationJob => job?.status === 'done').map(generatedImageOf);
             
-            if (imageUrl) {
-                this.visualState.lastGeneratedImage = imageUrl;
-                this.visualState.generationProgress = "Scene captured successfully!";
-                this.visualState.generationStats.successfulGenerations++;
-                
-                // Start refinement process if enabled
-                if (this.enableRefinement && !this.visualState.isRefining) {
-                    this.startRefinementProcess(imageUrl, enrichedSceneContext);
-                }
+            if (images.length > 1) {
+                this.showCandidates({ images, sceneContext: enrichedSceneContext });
+            } else if (images.length === 1) {
+                this.keepCapture(images[0], enrichedSceneContext);
+            } else if (jobs.every(job => job?.status === 'cancelled')) {
+                this.visualState.generationProgress = "Capture cancelled";
             } else {
+                const failed = jobs.find(job => job?.status === 'failed');
                 this.visualState.generationProgress = "Generation failed";
-                this.visualState.errorMessage = "Image generation failed - check API connection";
-                this.visualState.generationStats.lastError = "Generation returned null";
+                this.recordError(failed ? jobError(failed) : this.unconfiguredError());
             }
             
         } catch (error: any) {
@@ -417,12 +889,13 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
             this.visualState.errorMessage = error.message || "Unknown error occurred";
             this.visualState.generationStats.lastError = error.message;
         } finally {
-            this.visualState.isGenerating = false;
+            this.activeCaptures--;
+            this.visualState.isGenerating = this.activeCaptures > 0;
             this.forceUpdate();
             
             // Reset progress after 3 seconds
             setTimeout(() => {
-                if (!this.visualState.isRefining) {
+                if (!this.visualState.isRefining && !this.visualState.isGenerating) {
                     this.visualState.generationProgress = "Ready";
                     this.forceUpdate();
                 }
@@ -430,6 +903,190 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
         }
     }
 
+    // Shows why a generation failed and counts it by kind
+    private recordError(error: ImageApiError, context?: string) {
+        this.visualState.errorMessage = context ? `${context}: ${error.userMessage}` : error.userMessage;
+        const stats = this.visualState.generationStats;
+        stats.lastError = error.message;
+        stats.lastErrorKind = error.kind;
+        stats.errorsByKind[error.kind] = (stats.errorsByKind[error.kind] || 0) + 1;
+    }
+
+    private unconfiguredError(): ImageApiError {
+        return new ImageApiError('auth', `No ${this.imageProvider.label} API key configured`);
+    }
+
+    private keepCapture(image: GeneratedImage, sceneContext: SceneContext) {
+        this.addChronicleEntry('capture', image, sceneContext);
+        this.visualState.generationProgress = "Scene captured successfully!";
+        this.visualState.generationStats.successfulGenerations++;
+        
+        // Start refinement process if enabled
+        if (this.enableRefinement && !this.visualState.isRefining) {
+            this.startRefinementProcess(image, sceneContext);
+        }
+    }
+
+    // Variant prompts for 'prompt' variation; the first candidate always uses the prompt as is
+    private candidatePrompt(prompt: string, index: number): string {
+        if (this.candidateVariation !== 'prompt' || index === 0) {
+            return prompt;
+        }
+        return `${prompt}, ${CANDIDATE_VARIATIONS[(index - 1) % CANDIDATE_VARIATIONS.length]}`;
+    }
+
+    // Sets finished while another grid is still up wait their turn; they are paid for already
+    private showCandidates(candidates: CaptureCandidates) {
+        if (this.visualState.candidates) {
+            this.waitingCandidates.push(candidates);
+        } else {
+            this.visualState.candidates = candidates;
+        }
+        this.visualState.generationProgress = `Pick one of ${this.visualState.candidates!.images.length} candidates`;
+    }
+
+    private nextCandidates() {
+        this.visualState.candidates = undefined;
+        const next = this.waitingCandidates.shift();
+        if (next) {
+            this.showCandidates(next);
+        }
+    }
+
+    // Candidate grid actions
+    chooseCandidate = (index: number) => {
+        const candidates = this.visualState.candidates;
+        const image = candidates?.images[index];
+        if (!candidates || !image) return;
+        this.keepCapture(image, candidates.sceneContext);
+        this.nextCandidates();
+        this.forceUpdate();
+    }
+
+    discardCandidates = () => {
+        this.nextCandidates();
+        if (!this.visualState.candidates) {
+            this.visualState.generationProgress = "Ready";
+        }
+        this.forceUpdate();
+    }
+
+    // Saves a generated image to the gallery and makes it the displayed scene
+    private addChronicleEntry(kind: ChronicleEntry['kind'], image: GeneratedImage, sceneContext: SceneContext, parentImage?: string): ChronicleEntry {
+        const messageId = latestBotMessageId(this.getCurrentMessageHistory());
+        const entry: ChronicleEntry = {
+            id: generateUUID(),
+            kind,
+            imageUrl: image.imageUrl,
+            prompt: image.prompt,
+            sceneContext,
+            seed: image.seed,
+            provider: image.provider,
+            timestamp: Date.now(),
+            parentImage,
+            messageId,
+            // Filled in by recordNarrative if the chronicle for this message is still being written
+            narrative: this.narrativeFor(messageId),
+            message: latestBotMessage(this.getCurrentMessageHistory())?.content.slice(0, MAX_STORED_MESSAGE_LENGTH)
+        };
+        this.chronicleEntries = [...this.chronicleEntries, entry];
+        // Goes out with the next beforePrompt/afterResponse; setState finds it by messageId before then
+        this.currentMessageState = { ...this.currentMessageState, scene_image: sceneImageOf(entry) };
+        this.showChronicleEntry(entry);
+        this.saveChatState();
+        if (this.postImagesToChat && !this.composerPaused) {
+            // A refinement replaces its source image if that has not been posted yet
+            this.pendingImagePosts = [
+                ...this.pendingImagePosts.filter(post => post.imageUrl !== parentImage),
+                { imageUrl: entry.imageUrl, message: imageMessage(entry.imageUrl, sceneContext) }
+            ];
+        }
+        return entry;
+    }
+
+    private showChronicleEntry(entry?: ChronicleEntry) {
+        this.visualState.selectedEntryId = entry?.id;
+        this.visualState.lastGeneratedImage = entry?.imageUrl;
+        if (entry) {
+            this.visualState.sceneContext = entry.sceneContext;
+        }
+    }
+
+    // Gallery actions
+    openChronicleEntry = (entryId: string) => {
+        this.showChronicleEntry(this.chronicleEntries.find(entry => entry.id === entryId));
+        this.forceUpdate();
+    }
+
+    deleteChronicleEntry = (entryId: string) => {
+        this.chronicleEntries = this.chronicleEntries.filter(entry => entry.id !== entryId);
+        if (this.visualState.selectedEntryId === entryId) {
+            this.showChronicleEntry(this.chronicleEntries[this.chronicleEntries.length - 1]);
+        }
+        this.saveChatState();
+        this.forceUpdate();
+    }
+
+    // Storybook export of the gallery, as one HTML file or a ZIP with the images and a manifest
+    exportStorybook = async (format: StorybookFormat) => {
+        this.visualStore.update({ isExporting: true, errorMessage: undefined, generationProgress: "Exporting storybook..." });
+        try {
+            downloadFile(await this.buildStorybook(format));
+            this.visualState.generationProgress = "Storybook exported";
+        } catch (error) {
+            console.error("Storybook export failed:", error);
+            this.visualState.generationProgress = "Export failed";
+            this.visualState.errorMessage = `Storybook export failed: ${error instanceof Error ? error.message : error}`;
+        } finally {
+            this.visualState.isExporting = false;
+            this.forceUpdate();
+        }
+    }
+
+    private async buildStorybook(format: StorybookFormat): Promise<ExportFile> {
+        const characters = this.roster.all().filter(entry => !entry.isUser).map(entry => entry.name);
+        const title = characters.length > 0 ? `${characters.join(" & ")} Storybook` : "Scene Storybook";
+        const history = this.getCurrentMessageHistory();
+        const scenes: StorybookScene[] = this.chronicleEntries.map(({ messageId, message, ...entry }) => ({
+            ...entry,
+            // Entries saved before the message was stored can still find it while it is in the history
+            message: message || history.find(candidate => messageId && candidate.messageId === messageId)?.content
+        }));
+        return exportStorybook(format, title, scenes);
+    }
+
+    // Pinned corrections apply until the parsed scene moves to a new location, time or cast
+    private applyPinnedEdits(parsed: SceneContext): SceneContext {
+        const { context, pin } = applyPin(this.pinnedScene, parsed);
+        if (this.pinnedScene && !pin) {
+            this.pinnedScene = undefined;
+            this.saveChatState();
+        }
+        return context;
+    }
+
+    private chatState(): ChatStateType {
+        const pending = this.generationQueue.resumable;
+        return {
+            chronicle_entries: this.chronicleEntries,
+            narratives: this.narratives.length > 0 ? this.narratives : undefined,
+            pinned_scene: this.pinnedScene,
+            pending_jobs: pending.length > 0 ? pending : undefined,
+            scene_style: this.styleOverride,
+            composer_paused: this.composerPaused || undefined
+        };
+    }
+
+    // Chat state changes outside beforePrompt/afterResponse go through the messenger
+    private saveChatState() {
+        this.savedJobsKey = jobsKey(this.generationQueue.resumable);
+        this.messenger.updateChatState(this.chatState()).then(response => {
+            if (!response.success) {
+                console.error("Failed to save chat state:", response.error);
+            }
+        }).catch(error => console.error("Failed to save chat state:", error));
+    }
+
     private getBestCharacterReference(): string | undefined {
         // Get the best character reference image for img2img
         if (this.visualState.availableCharacters.length === 0) {
@@ -446,143 +1103,174 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
         return primaryCharacter.avatarUrl;
     }
 
-    private async startRefinementProcess(imageUrl: string, sceneContext: SceneContext) {
+    private async startRefinementProcess(image: GeneratedImage, sceneContext: SceneContext) {
         // 3-part refinement system: verification → feedback → prompt refinement loop
-        setTimeout(async () => {
-            this.visualState.isRefining = true;
-            this.visualState.generationProgress = "Starting refinement process...";
+        setTimeout(() => this.refineImage(image, sceneContext), 2000);
+    }
+
+    // Every pass corrects the kept image's own prompt, which may have been written by hand in the preview
+    private async refineImage(image: GeneratedImage, sceneContext: SceneContext) {
+        if (!this.imageVerifier) {
+            console.warn("Refinement needs a vision backend (poe_api_key or vision_api_base_url)");
+            this.visualState.generationProgress = "Refinement skipped - no vision backend";
             this.forceUpdate();
-            
-            try {
-                // Step 1: Verification - analyze the generated image
-                const verificationResult = await this.verifyImage(imageUrl, sceneContext);
+            return;
+        }
+
+        this.visualState.isRefining = true;
+        this.visualState.generationProgress = "Starting refinement process...";
+        this.forceUpdate();
+        
+        try {
+            let currentImage = image.imageUrl;
+            for (let iteration = 1; iteration <= this.maxRefinements; iteration++) {
+                // Step 1: Verification - compare the image with the intended scene
+                this.visualState.generationProgress = `Verifying image... ${iteration}/${this.maxRefinements}`;
+                this.forceUpdate();
+                const verificationResult = await this.verifyImage(currentImage, sceneContext);
                 
-                if (verificationResult.needsImprovement) {
-                    // Step 2: Generate feedback for improvement
-                    const feedback = this.generateFeedback(verificationResult, sceneContext);
-                    
-                    // Step 3: Create refined prompt
-                    const refinedPrompt = this.createRefinedPrompt(sceneContext, feedback);
-                    
-                    // Generate improved image
-                    this.visualState.generationProgress = "Refining image...";
-                    this.forceUpdate();
-                    
-                    const refinedImageUrl = await this.generateSceneImage(refinedPrompt, imageUrl);
-                    
-                    if (refinedImageUrl) {
-                        this.visualState.lastGeneratedImage = refinedImageUrl;
-                        this.visualState.generationProgress = "Refinement complete!";
-                        this.visualState.generationStats.successfulGenerations++;
-                    } else {
-                        this.visualState.generationProgress = "Refinement failed";
-                        this.visualState.errorMessage = "Refinement generation failed";
-                    }
-                } else {
+                if (!verificationResult) {
+                    this.visualState.generationProgress = "Verification unavailable - keeping image";
+                    break;
+                }
+                if (verificationResult.issues.length === 0) {
                     this.visualState.generationProgress = "Image quality verified - no refinement needed";
+                    break;
                 }
-            } catch (error: any) {
-                console.error("Refinement process error:", error);
-                this.visualState.generationProgress = "Refinement failed";
-                this.visualState.errorMessage = `Refinement error: ${error.message}`;
-            } finally {
-                this.visualState.isRefining = false;
+                
+                // Step 2: Generate feedback for improvement
+                const feedback = this.generateFeedback(verificationResult, sceneContext);
+                
+                // Step 3: Create refined prompt
+                const refinedPrompt = this.createRefinedPrompt(image.prompt, feedback);
+                
+                // Generate improved image from the current one
+                this.visualState.generationProgress = `Refining image... ${iteration}/${this.maxRefinements}`;
                 this.forceUpdate();
                 
-                // Reset to ready after refinement completes
-                setTimeout(() => {
-                    this.visualState.generationProgress = "Ready";
-                    this.forceUpdate();
-                }, 3000);
+                const refinement = await this.generateSceneImage('refinement', refinedPrompt, sceneContext, currentImage);
+                
+                if (refinement?.status === 'cancelled') {
+                    this.visualState.generationProgress = "Refinement cancelled";
+                    break;
+                }
+                if (refinement?.status !== 'done') {
+                    this.visualState.generationProgress = "Refinement failed";
+                    this.recordError(refinement ? jobError(refinement) : this.unconfiguredError(), "Refinement failed");
+                    break;
+                }
+                const refinedImage = generatedImageOf(refinement);
+                this.addChronicleEntry('refinement', refinedImage, sceneContext, currentImage);
+                this.visualState.generationProgress = "Refinement complete!";
+                this.visualState.generationStats.successfulGenerations++;
+                currentImage = refinedImage.imageUrl;
             }
-        }, 2000);
+        } catch (error: any) {
+            console.error("Refinement process error:", error);
+            this.visualState.generationProgress = "Refinement failed";
+            this.visualState.errorMessage = `Refinement error: ${error.message}`;
+        } finally {
+            this.visualState.isRefining = false;
+            this.forceUpdate();
+            
+            // Reset to ready after refinement completes
+            setTimeout(() => {
+                this.visualState.generationProgress = "Ready";
+                this.forceUpdate();
+            }, 3000);
+        }
     }
 
-    private async verifyImage(imageUrl: string, sceneContext: SceneContext): Promise<{needsImprovement: boolean, issues: string[]}> {
-        // Basic verification logic - could be enhanced with AI vision analysis
-        const issues: string[] = [];
-        
-        // For now, randomly decide if refinement is needed (placeholder logic)
-        const needsImprovement = Math.random() > 0.7;
-        
-        if (needsImprovement) {
-            issues.push("Character positioning could be improved");
-            issues.push("Lighting needs enhancement");
+    private async verifyImage(imageUrl: string, sceneContext: SceneContext): Promise<VerificationResult | null> {
+        const result = this.imageVerifier ? await this.imageVerifier.verify(imageUrl, sceneContext) : null;
+        if (result && result.issues.length > 0) {
+            console.log('Verification issues:', result.issues);
         }
-        
-        return { needsImprovement, issues };
+        return result;
     }
 
-    private generateFeedback(verificationResult: {needsImprovement: boolean, issues: string[]}, sceneContext: SceneContext): string {
-        const feedbackPoints = verificationResult.issues;
-        return feedbackPoints.join(', ') + '. Focus on ' + sceneContext.mood + ' atmosphere.';
+    private generateFeedback(verificationResult: VerificationResult, sceneContext: SceneContext): string {
+        return verificationResult.issues.map(issue => correctionFor(issue, sceneContext)).join(', ');
     }
 
-    private createRefinedPrompt(sceneContext: SceneContext, feedback: string): string {
-        const basePrompt = this.createScenePrompt(sceneContext);
-        return `${basePrompt}, improved composition, ${feedback}, masterpiece quality`;
+    private createRefinedPrompt(prompt: string, feedback: string): string {
+        // Corrections go first so the model weighs them most
+        return `${feedback}, ${prompt}`;
     }
 
     private async parseSceneContext(): Promise<SceneContext> {
-        // DEBUG: Check message history
-        const messageHistory = this.getCurrentMessageHistory();
-        console.log('DEBUG: Message history length:', messageHistory.length);
-        console.log('DEBUG: Message history:', messageHistory);
-        
-        // Get recent messages for analysis
-        const recentMessages = await this.getRecentMessages(10);
-        console.log('DEBUG: Recent messages:', recentMessages);
-        const combinedText = recentMessages.map(msg => msg.content).join(' ').toLowerCase();
-        console.log('DEBUG: Combined text for analysis:', combinedText);
-        
-        // Extract characters (look for names, pronouns, character references)
-        const characters = this.extractCharacters(combinedText);
-        console.log('DEBUG: Extracted characters:', characters);
-        
-        // Extract location
-        const location = this.extractLocation(combinedText);
-        console.log('DEBUG: Extracted location:', location);
-        
-        // Extract actions/activities
-        const actions = this.extractActions(combinedText);
-        console.log('DEBUG: Extracted actions:', actions);
-        
-        // Extract mood/atmosphere
-        const mood = this.extractMood(combinedText);
-        console.log('DEBUG: Extracted mood:', mood);
-        
-        // Extract time of day
-        const timeOfDay = this.extractTimeOfDay(combinedText);
-        console.log('DEBUG: Extracted timeOfDay:', timeOfDay);
-        
-        const sceneContext: SceneContext = {
-            characters: characters.length > 0 ? characters : ["main character"],
-            location: location || "university campus",
-            actions: actions || "conversation",
-            mood: mood || "neutral",
-            timeOfDay: timeOfDay || "day"
+        // The tracker has merged every message so far; earlier evidence holds until something replaces it
+        if (this.sceneAnalyzer) {
+            const messages = this.getCurrentMessageHistory().slice(-10).map(message => ({
+                speaker: this.speakerName(message),
+                content: message.content
+            }));
+            const evidence = await this.sceneAnalyzer.analyze(messages, this.roster.all().map(entry => entry.name));
+            if (evidence) {
+                // Merged into a copy for this capture only; the chat's tracker moves with messages alone
+                const analyzed = new SceneTracker(this.maxCharacters, this.sceneTracker.toState());
+                analyzed.observe("", evidence);
+                return this.trackedScene(analyzed);
+            }
+        }
+        return this.trackedScene();
+    }
+
+    private trackedScene(tracker: SceneTracker = this.sceneTracker): SceneContext {
+        const scene = tracker.current;
+        return { ...scene, people: scene.people?.map(person => this.withCardAppearance(person)) };
+    }
+
+    // Fills a character's look from their card; what the chat says they are wearing wins
+    private withCardAppearance(person: SceneCharacter): SceneCharacter {
+        const entry = this.roster.find(person.name);
+        if (!entry) {
+            return person;
+        }
+        const appearance = describeAppearance({ ...entry.appearance, clothing: undefined });
+        return {
+            ...person,
+            name: entry.name,
+            appearance: person.appearance || appearance || undefined,
+            outfit: person.outfit || entry.appearance.clothing
         };
-        
-        return sceneContext;
     }
 
-    private async getRecentMessages(count: number): Promise<Message[]> {
-        // Get recent messages from manually tracked history
-        const messageHistory = this.getCurrentMessageHistory();
-        
-        // Convert our ConversationMessage format to Message format
-        return messageHistory
-            .slice(-count) // Get last 'count' messages
-            .map((msg: ConversationMessage) => ({
-                content: msg.content,
-                authorId: msg.isUser ? 'user' : 'assistant', 
-                timestamp: msg.timestamp,
-                anonymizedId: 'msg-' + msg.timestamp,
-                isBot: !msg.isUser,
-                promptForId: '',
-                identity: msg.isUser ? 'user' : 'bot',
-                isMain: false
-            }) as Message);
+    private speakerName(message: ConversationMessage): string {
+        const entry = message.speakerId ? this.roster.bySpeakerId(message.speakerId) : undefined;
+        return entry?.name || (message.isUser ? "User" : "Narrator");
+    }
+
+    // Feeds the newest message's evidence to the scene tracker; keywords are scored over the last
+    // few messages so both recency and repetition count
+    private observeScene(history: ConversationMessage[]) {
+        const message = history[history.length - 1];
+        const window = history.slice(-SCORING_WINDOW).map(recent => recent.content);
+        const location = this.extractLocation(window);
+        const actions = this.extractActions(window);
+        const mood = this.extractMood(window);
+        const timeOfDay = this.extractTimeOfDay(window);
+        const characters = this.extractCharacters([message]);
+        const names = [...new Set([...this.roster.all().map(entry => entry.name), ...characters])];
+        const author = message.speakerId ? this.roster.bySpeakerId(message.speakerId)?.name : undefined;
+        const details = extractSceneDetails(message.content, names, author);
+        const transitions = this.sceneTracker.observe(message.content, {
+            characters,
+            location: location?.value || "",
+            actions: actions?.value || "",
+            mood: mood?.value || "",
+            timeOfDay: timeOfDay?.value || "",
+            ...details,
+            confidence: {
+                location: location?.confidence,
+                actions: actions?.confidence,
+                mood: mood?.confidence,
+                timeOfDay: timeOfDay?.confidence
+            }
+        }, message.messageId);
+        if (transitions.length > 0) {
+            console.log('Scene transitions:', transitions.map(transition => transition.description));
+        }
     }
 
     private getCurrentMessageHistory(): ConversationMessage[] {
@@ -590,12 +1278,14 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
         return this.currentMessageState?.message_history || [];
     }
 
-    private addMessageToHistory(content: string, isUser: boolean): ConversationMessage[] {
+    private addMessageToHistory(content: string, isUser: boolean, speakerId?: string, messageId?: string): ConversationMessage[] {
         const currentHistory = this.getCurrentMessageHistory();
         const newMessage: ConversationMessage = {
             content,
             isUser,
-            timestamp: Date.now()
+            timestamp: Date.now(),
+            messageId,
+            speakerId
         };
         
         // Add new message and keep only last 20 messages for performance
@@ -603,71 +1293,12 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
         return updatedHistory;
     }
 
-    private extractCharacters(text: string): string[] {
-        const characters: string[] = [];
-        
-        // Enhanced patterns for roleplay/conversation text
-        const characterPatterns = [
-            // Speech patterns
-            /\b([A-Z][a-z]+)\s+(said|says|asked|replied|whispered|shouted|speaks|calls|answers)/gi,
-            // Action patterns  
-            /\b([A-Z][a-z]+)\s+(walked|ran|smiled|frowned|looked|turned|sits|stands|moves|approaches|enters|leaves)/gi,
-            // Possessive patterns
-            /\b([A-Z][a-z]+)'s\s+/g,
-            // Roleplay patterns (common in chat)
-            /^\*([A-Z][a-z]+)\s+/gm, // *Character action*
-            /\[([A-Z][a-z]+)\]/gi, // [Character name]
-            /\b([A-Z][a-z]+):\s/gi, // Character: dialogue
-            // Title patterns
-            /\b(professor|prof|dr|doctor|mr|ms|mrs)\s+([A-Z][a-z]+)/gi,
-            // You/your patterns (detect if referring to a named character)
-            /you\s+(are|were)\s+([A-Z][a-z]+)/gi,
-            // Character descriptions
-            /\b([A-Z][a-z]+)\s+(is|was)\s+(a|an|the)/gi
-        ];
-
-        characterPatterns.forEach((pattern, index) => {
-            const matches = text.matchAll(pattern);
-            for (const match of matches) {
-                // Different capture groups for different patterns
-                let name = match[1];
-                if (index === 6) { // Title patterns have name in group 2
-                    name = match[2];
-                }
-                
-                // Filter out common false positives
-                const excludeWords = ['the', 'and', 'but', 'for', 'are', 'was', 'you', 'your', 'my', 'his', 'her', 'their', 'this', 'that', 'with', 'have', 'been', 'will', 'can', 'could', 'would', 'should'];
-                
-                if (name && 
-                    name.length > 2 && 
-                    name.length < 20 && 
-                    !excludeWords.includes(name.toLowerCase()) &&
-                    !characters.includes(name)) {
-                    characters.push(name);
-                }
-            }
-        });
-
-        // Also extract from message structure if available - look for consistent speakers
-        const messageHistory = this.getCurrentMessageHistory();
-        const recentMessages = messageHistory.slice(-6); // Last 6 messages
-        
-        // Look for patterns like "*Character* does something" or "Character: says something"
-        recentMessages.forEach(msg => {
-            const content = msg.content;
-            const roleplayMatches = content.match(/^\*?([A-Z][a-z]{2,15})\*?\s+(does|is|was|looks|feels|thinks|walks|runs|sits|stands|says|whispers|shouts)/i);
-            if (roleplayMatches && roleplayMatches[1]) {
-                const name = roleplayMatches[1];
-                if (!characters.includes(name)) {
-                    characters.push(name);
-                }
-            }
-        });
-
-        return characters.slice(0, this.maxCharacters);
+    private extractCharacters(messages: ConversationMessage[]): string[] {
+        // Ranked by salience (speaking, acting, mentions, pronoun references)
+        return this.characterDetector.detect(messages, this.maxCharacters);
     }
 
-    private extractLocation(text: string): string {
+    private extractLocation(messages: string[]): ScoredValue | null {
         const locationKeywords = {
             'classroom': 'classroom',
             'library': 'library', 
@@ -712,43 +1343,10 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
             'mountain': 'mountain'
         };
 
-        // Check recent messages for location context
-        const messageHistory = this.getCurrentMessageHistory();
-        const recentText = messageHistory.slice(-3).map(m => m.content).join(' ').toLowerCase();
-        const combinedText = (text + ' ' + recentText).toLowerCase();
-
-        // Look for location phrases
-        const locationPatterns = [
-            /\b(in|at|inside|outside|near|by)\s+(the\s+)?([a-z]+(?:\s+[a-z]+)*)/gi,
-            /\bwe're\s+(in|at|inside)\s+(the\s+)?([a-z]+)/gi,
-            /\bgoing\s+to\s+(the\s+)?([a-z]+)/gi,
-            /\bentered?\s+(the\s+)?([a-z]+)/gi,
-            /\blocation:\s*([a-z]+(?:\s+[a-z]+)*)/gi
-        ];
-
-        for (const pattern of locationPatterns) {
-            const matches = combinedText.matchAll(pattern);
-            for (const match of matches) {
-                const location = match[match.length - 1]; // Get the last capture group
-                for (const [keyword, mappedLocation] of Object.entries(locationKeywords)) {
-                    if (location && location.includes(keyword)) {
-                        return mappedLocation;
-                    }
-                }
-            }
-        }
-
-        // Fallback to simple keyword matching
-        for (const [keyword, location] of Object.entries(locationKeywords)) {
-            if (combinedText.includes(keyword)) {
-                return location;
-            }
-        }
-
-        return '';
+        return scoreKeywords(locationKeywords, messages, { cueWords: ['in', 'at', 'inside', 'into', 'to', 'entered', 'near', 'reached'] });
     }
 
-    private extractActions(text: string): string {
+    private extractActions(messages: string[]): ScoredValue | null {
         const actionKeywords = {
             'studying': 'studying',
             'reading': 'reading',
@@ -771,16 +1369,10 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
             'test': 'taking test'
         };
 
-        for (const [keyword, action] of Object.entries(actionKeywords)) {
-            if (text.includes(keyword)) {
-                return action;
-            }
-        }
-
-        return '';
+        return scoreKeywords(actionKeywords, messages);
     }
 
-    private extractMood(text: string): string {
+    private extractMood(messages: string[]): ScoredValue | null {
         const moodKeywords = {
             'happy': 'joyful',
             'sad': 'melancholic',
@@ -798,16 +1390,10 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
             'intense': 'intense'
         };
 
-        for (const [keyword, mood] of Object.entries(moodKeywords)) {
-            if (text.includes(keyword)) {
-                return mood;
-            }
-        }
-
-        return '';
+        return scoreKeywords(moodKeywords, messages);
     }
 
-    private extractTimeOfDay(text: string): string {
+    private extractTimeOfDay(messages: string[]): ScoredValue | null {
         const timeKeywords = {
             'morning': 'morning',
             'dawn': 'dawn',
@@ -817,38 +1403,69 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
             'evening': 'evening',
             'sunset': 'sunset',
             'night': 'night',
+            'tonight': 'night',
             'midnight': 'midnight',
             'dusk': 'dusk',
             'twilight': 'twilight'
         };
 
-        for (const [keyword, time] of Object.entries(timeKeywords)) {
-            if (text.includes(keyword)) {
-                return time;
-            }
-        }
-
-        return '';
+        return scoreKeywords(timeKeywords, messages);
     }
 
     private createScenePrompt(context: SceneContext): string {
-        return `${this.sceneStyle} scene: ${context.characters.join(' and ')} ${context.actions} at ${context.location}, ${context.mood} mood, ${context.timeOfDay} lighting, high quality, detailed`;
+        // Roster characters carry their visual descriptors so they render consistently across captures.
+        // {subjects} describes each one: look, outfit, expression, pose, place in frame.
+        const people = context.people && context.people.length > 0 ?
+            context.people :
+            context.characters.map(name => this.withCardAppearance({ name }));
+        const narrative = this.visualState.currentNarrative;
+        const template = this.narrativePrompt && narrative && this.promptPreset.template === DEFAULT_TEMPLATE ?
+            NARRATIVE_TEMPLATE : this.promptPreset.template;
+        return renderTemplate(template, {
+            style: this.sceneStyle,
+            subjects: people.map(person => describePerson(person, people.length > 1)).join(' and '),
+            characters: context.characters.join(', '),
+            location: context.location,
+            actions: context.actions,
+            mood: context.mood,
+            timeOfDay: context.timeOfDay,
+            props: (context.props || []).join(', '),
+            weather: context.weather || "",
+            lighting: context.lighting || "",
+            camera: context.camera || "",
+            quality: this.promptPreset.quality,
+            narrative: narrative ? narrativeExcerpt(narrative) : ""
+        });
     }
 
-    private generateUUID(): string {
-        return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function(c) {
-            const r = Math.random() * 16 | 0;
-            const v = c === 'x' ? r : (r & 0x3 | 0x8);
-            return v.toString(16);
-        });
+    // An older gallery entry shows the chronicle from when it was captured; otherwise the latest one
+    private shownNarrative(): string {
+        const entries = this.chronicleEntries;
+        const selected = entries.find(entry => entry.id === this.visualState.selectedEntryId);
+        if (selected && selected !== entries[entries.length - 1]) {
+            return selected.narrative || "";
+        }
+        return this.visualState.currentNarrative;
     }
 
+    // Re-renders the subscribed view after visualState (or anything else it shows) changed
     private forceUpdate = () => {
-        // Simple re-render trigger for React
-        this.visualState = { ...this.visualState };
+        this.visualStore.notify();
     }
 
+    // A component of its own, so updates from polling and timers show without the runner re-rendering
     render(): ReactElement {
+        return <StoreView store={this.visualStore} render={() => this.renderComposer()}/>;
+    }
+
+    private renderComposer(): ReactElement {
+        // How the story has moved on since the displayed capture
+        const sceneChanges = this.visualState.sceneContext ? this.sceneTracker.diffSince(this.visualState.sceneContext) : [];
+        const recentTransitions = this.sceneTracker.transitions.slice(-3);
+        const preview = this.visualState.preview;
+        const jobs = this.generationQueue.jobs;
+        const narrative = this.narrator ? this.shownNarrative() : "";
+
         return (
             <div style={{
                 width: '100%',
@@ -884,23 +1501,85 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
                         marginBottom: '10px'
                     }}>
                         <strong style={{ color: '#ffd700' }}>📸 Scene Capture</strong>
-                        <button
-                            onClick={this.captureScene}
-                            disabled={this.visualState.isGenerating}
-                            style={{
-                                background: this.visualState.isGenerating ? '#666' : '#4a9eff',
-                                border: 'none',
-                                color: 'white',
-                                padding: '8px 16px',
-                                borderRadius: '15px',
-                                cursor: this.visualState.isGenerating ? 'not-allowed' : 'pointer',
-                                fontSize: '14px',
-                                fontWeight: 'bold'
-                            }}
-                        >
-                            {this.visualState.isGenerating ? '⏳ Generating...' : '📸 Capture Scene'}
-                        </button>
+                        <div style={{ display: 'flex', gap: '8px' }}>
+                            {/* Both stay enabled while generating: another capture queues behind the running one */}
+                            <button
+                                onClick={this.previewScene}
+                                style={{
+                                    background: 'transparent',
+                                    border: '1px solid #4a9eff',
+                                    color: '#4a9eff',
+                                    padding: '8px 16px',
+                                    borderRadius: '15px',
+                                    cursor: 'pointer',
+                                    fontSize: '14px'
+                                }}
+                            >
+                                📝 Preview
+                            </button>
+                            <button
+                                onClick={this.captureScene}
+                                title={this.visualState.isGenerating ? "Queue another capture behind the running one" : undefined}
+                                style={{
+                                    background: this.visualState.isGenerating ? '#666' : '#4a9eff',
+                                    border: 'none',
+                                    color: 'white',
+                                    padding: '8px 16px',
+                                    borderRadius: '15px',
+                                    cursor: 'pointer',
+                                    fontSize: '14px',
+                                    fontWeight: 'bold'
+                                }}
+                            >
+                                {this.visualState.isGenerating ? '➕ Queue another' : '📸 Capture Scene'}
+                            </button>
+                        </div>
                     </div>
+
+                    {/* Editable scene preview */}
+                    {preview && (
+                        <div style={{
+                            background: 'rgba(0,0,0,0.25)',
+                            borderRadius: '8px',
+                            padding: '10px',
+                            marginBottom: '10px',
+                            fontSize: '12px'
+                        }}>
+                            {PREVIEW_FIELDS.map(([field, label]) => (
+                                <label key={field} style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '6px' }}>
+                                    <span style={{ width: '80px', opacity: 0.8 }}>{label}</span>
+                                    <input
+                                        value={field === 'characters' ? preview.context.characters.join(', ') : preview.context[field]}
+                                        onChange={event => this.editPreviewField(field, event.target.value)}
+                                        style={{ flex: 1, background: 'rgba(255,255,255,0.1)', border: '1px solid rgba(255,255,255,0.2)', color: 'white', borderRadius: '4px', padding: '4px' }}
+                                    />
+                                </label>
+                            ))}
+                            <textarea
+                                value={preview.prompt}
+                                onChange={event => this.editPreviewPrompt(event.target.value)}
+                                rows={4}
+                                style={{ width: '100%', background: 'rgba(255,255,255,0.1)', border: '1px solid rgba(255,255,255,0.2)', color: 'white', borderRadius: '4px', padding: '4px', boxSizing: 'border-box' }}
+                            />
+                            <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginTop: '6px' }}>
+                                <label style={{ flex: 1 }}>
+                                    <input type="checkbox" checked={preview.pin} onChange={this.togglePreviewPin} /> 📌 Keep these edits until the scene changes
+                                </label>
+                                <button
+                                    onClick={this.cancelPreview}
+                                    style={{ background: 'transparent', border: '1px solid #999', color: '#ccc', padding: '4px 12px', borderRadius: '12px', cursor: 'pointer' }}
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    onClick={this.generateFromPreview}
+                                    style={{ background: '#4a9eff', border: 'none', color: 'white', padding: '4px 12px', borderRadius: '12px', cursor: 'pointer', fontWeight: 'bold' }}
+                                >
+                                    Generate
+                                </button>
+                            </div>
+                        </div>
+                    )}
                     
                     {/* Progress indicator */}
                     <div style={{
@@ -913,6 +1592,25 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
                         {this.visualState.isRefining && ' 🔄'}
                     </div>
 
+                    {/* Generation queue with per-job progress */}
+                    {jobs.length > 0 && (
+                        <div style={{ fontSize: '11px', marginBottom: '10px' }}>
+                            {jobs.map(job => (
+                                <div key={job.id} style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '4px' }}>
+                                    <span style={{ opacity: 0.8 }}>
+                                        {job.kind === 'refinement' ? '🔄 Refinement' : '📸 Capture'} • {job.progress}
+                                    </span>
+                                    <button
+                                        onClick={() => this.cancelJob(job.id)}
+                                        style={{ background: 'transparent', border: '1px solid #ff6b6b', color: '#ff6b6b', padding: '1px 8px', borderRadius: '10px', cursor: 'pointer', fontSize: '11px' }}
+                                    >
+                                        Cancel
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
                     {/* Error message display */}
                     {this.visualState.errorMessage && (
                         <div style={{
@@ -929,6 +1627,43 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
                     )}
 
                     {/* Generated image display */}
+                    {/* Candidate grid - click one to keep it */}
+                    {this.visualState.candidates && (
+                        <div style={{ marginTop: '15px' }}>
+                            <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '12px', color: '#ffd700', marginBottom: '8px' }}>
+                                <span>
+                                    Pick the keeper ({this.visualState.candidates.images.length} candidates)
+                                    {this.waitingCandidates.length > 0 && ` • ${this.waitingCandidates.length} more set${this.waitingCandidates.length === 1 ? '' : 's'} waiting`}
+                                </span>
+                                <button
+                                    onClick={this.discardCandidates}
+                                    style={{ background: 'transparent', border: '1px solid #999', color: '#ccc', padding: '2px 10px', borderRadius: '12px', cursor: 'pointer', fontSize: '11px' }}
+                                >
+                                    Discard all
+                                </button>
+                            </div>
+                            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: '8px' }}>
+                                {this.visualState.candidates.images.map((image, index) => (
+                                    <img
+                                        key={image.imageUrl}
+                                        src={image.imageUrl}
+                                        onClick={() => this.chooseCandidate(index)}
+                                        title={image.prompt}
+                                        style={{
+                                            width: '100%',
+                                            aspectRatio: `${this.generationSettings.width} / ${this.generationSettings.height}`,
+                                            objectFit: 'cover',
+                                            borderRadius: '8px',
+                                            border: '2px solid rgba(74,158,255,0.5)',
+                                            cursor: 'pointer'
+                                        }}
+                                        alt={`Candidate ${index + 1}`}
+                                    />
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
                     {this.visualState.lastGeneratedImage && (
                         <div style={{ marginTop: '15px' }}>
                             <img 
@@ -945,6 +1680,21 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
                         </div>
                     )}
 
+                    {/* Narrator's chronicle */}
+                    {narrative && (
+                        <div style={{
+                            marginTop: '10px',
+                            padding: '10px',
+                            background: 'rgba(255,255,255,0.05)',
+                            borderLeft: '3px solid #ffd700',
+                            borderRadius: '6px',
+                            fontSize: '13px',
+                            lineHeight: 1.5
+                        }}>
+                            📜 {narrative}
+                        </div>
+                    )}
+
                     {/* Scene context display */}
                     {this.visualState.sceneContext && (
                         <div style={{
@@ -953,7 +1703,29 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
                             opacity: 0.7,
                             fontStyle: 'italic'
                         }}>
-                            Scene: {this.visualState.sceneContext.characters.join(', ')} • {this.visualState.sceneContext.location} • {this.visualState.sceneContext.mood}
+                            Scene: {this.visualState.sceneContext.characters.join(', ')} • {withConfidence(this.visualState.sceneContext, 'location')} • {withConfidence(this.visualState.sceneContext, 'actions')} • {withConfidence(this.visualState.sceneContext, 'mood')} • {withConfidence(this.visualState.sceneContext, 'timeOfDay')}
+                        </div>
+                    )}
+
+                    {/* Scene changes since the displayed capture */}
+                    {sceneChanges.length > 0 && (
+                        <div style={{
+                            marginTop: '6px',
+                            fontSize: '11px',
+                            color: '#4a9eff'
+                        }}>
+                            Since this capture: {sceneChanges.map(describeChange).join(' • ')}
+                        </div>
+                    )}
+
+                    {/* Recent scene transitions */}
+                    {recentTransitions.length > 0 && (
+                        <div style={{
+                            marginTop: '6px',
+                            fontSize: '11px',
+                            opacity: 0.6
+                        }}>
+                            Story: {recentTransitions.map(transition => transition.description).join(' → ')}
                         </div>
                     )}
 
@@ -979,16 +1751,18 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
                                         padding: '4px 8px',
                                         fontSize: '11px'
                                     }}>
-                                        <img 
-                                            src={char.avatarUrl} 
-                                            style={{ 
-                                                width: '16px', 
-                                                height: '16px', 
-                                                borderRadius: '50%',
-                                                objectFit: 'cover'
-                                            }}
-                                            alt={char.name}
-                                        />
+                                        {char.avatarUrl && (
+                                            <img 
+                                                src={char.avatarUrl} 
+                                                style={{ 
+                                                    width: '16px', 
+                                                    height: '16px', 
+                                                    borderRadius: '50%',
+                                                    objectFit: 'cover'
+                                                }}
+                                                alt={char.name}
+                                            />
+                                        )}
                                         <span>{char.name}</span>
                                         {char.galleryImages.length > 0 && (
                                             <span style={{ color: '#90EE90' }}>✓</span>
@@ -998,6 +1772,77 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
                             </div>
                         </div>
                     )}
+
+                    {/* Scene gallery */}
+                    {this.chronicleEntries.length > 0 && (
+                        <div style={{ marginTop: '15px' }}>
+                            <div style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px', color: '#ffd700', marginBottom: '8px' }}>
+                                <span style={{ flex: 1 }}>🖼️ Scene Gallery ({this.chronicleEntries.length})</span>
+                                {(['html', 'zip'] as StorybookFormat[]).map(format => (
+                                    <button
+                                        key={format}
+                                        onClick={() => this.exportStorybook(format)}
+                                        disabled={this.visualState.isExporting}
+                                        title={format === 'html' ? "Download a storybook with the images embedded" :
+                                            "Download the images, a JSON manifest and the storybook as a ZIP"}
+                                        style={{
+                                            background: 'rgba(255,255,255,0.1)',
+                                            border: '1px solid rgba(255,215,0,0.4)',
+                                            borderRadius: '4px',
+                                            color: '#ffd700',
+                                            fontSize: '11px',
+                                            padding: '2px 8px',
+                                            cursor: this.visualState.isExporting ? 'wait' : 'pointer'
+                                        }}
+                                    >
+                                        {format === 'html' ? "📖 Storybook" : "🗜️ ZIP"}
+                                    </button>
+                                ))}
+                            </div>
+                            <div className="scene-gallery" style={{ display: 'flex', gap: '8px', paddingBottom: '4px' }}>
+                                {this.chronicleEntries.map(entry => (
+                                    <div key={entry.id} style={{ position: 'relative', flex: '0 0 auto' }}>
+                                        <img
+                                            src={entry.imageUrl}
+                                            onClick={() => this.openChronicleEntry(entry.id)}
+                                            title={entry.prompt}
+                                            style={{
+                                                width: '64px',
+                                                height: '64px',
+                                                objectFit: 'cover',
+                                                borderRadius: '6px',
+                                                cursor: 'pointer',
+                                                border: entry.id === this.visualState.selectedEntryId ?
+                                                    '2px solid #ffd700' : '2px solid transparent'
+                                            }}
+                                            alt={entry.kind === 'refinement' ? "Refined scene" : "Captured scene"}
+                                        />
+                                        <button
+                                            onClick={() => this.deleteChronicleEntry(entry.id)}
+                                            title="Remove from gallery"
+                                            style={{
+                                                position: 'absolute',
+                                                top: '2px',
+                                                right: '2px',
+                                                background: 'rgba(0,0,0,0.6)',
+                                                border: 'none',
+                                                color: 'white',
+                                                borderRadius: '50%',
+                                                width: '16px',
+                                                height: '16px',
+                                                fontSize: '10px',
+                                                lineHeight: '16px',
+                                                padding: 0,
+                                                cursor: 'pointer'
+                                            }}
+                                        >
+                                            ✕
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
                 </div>
 
                 {/* Generation Statistics */}
@@ -1011,6 +1856,8 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
                     }}>
                         📊 Generations: {this.visualState.generationStats.successfulGenerations}/{this.visualState.generationStats.totalGenerations} successful
                         {this.enableRefinement && ' • Refinement enabled'}
+                        {this.autoCapture.enabled && ` • Auto-capture: ${this.autoCapture.remaining} left`}
+                        {this.visualState.generationStats.lastErrorKind && ` • Last error: ${this.visualState.generationStats.lastErrorKind.replace('_', ' ')}`}
                     </div>
                 )}
 
@@ -1020,12 +1867,123 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
                     opacity: 0.7,
                     textAlign: 'center'
                 }}>
-                    {this.chubApiKey ? 
-                        `🟢 Connected to Chub ${this.imageApiProvider}` : 
-                        "⚠️ No Chub API key configured"
+                    {this.imageProvider.isConfigured() ? 
+                        `🟢 Connected to ${this.imageProvider.label}` : 
+                        `⚠️ No ${this.imageProvider.label} API key configured`
                     }
+                    {this.settingsWarnings.map(warning => (
+                        <div key={warning} style={{ color: '#ffb74d', marginTop: '4px' }}>⚠️ {warning}</div>
+                    ))}
                 </div>
             </div>
         );
     }
-}
\ No newline at end of file
+}
+
+// "library (82%)" when keyword scoring reported a confidence for the field
+function withConfidence(context: SceneContext, field: keyof SceneConfidence): string {
+    const confidence = context.confidence?.[field];
+    return confidence === undefined ? context[field] : `${context[field]} (${Math.round(confidence * 100)}%)`;
+}
+
+// Messages scored together for each keyword field, newest weighted highest
+const SCORING_WINDOW = 3;
+
+// Also how many generations run at once
+const MAX_CANDIDATES = 4;
+
+// Bot message text kept with each gallery entry; chat state is saved on every change
+const MAX_STORED_MESSAGE_LENGTH = 1000;
+
+// Chronicles kept in chat state; older ones live on in their gallery entries
+const MAX_STORED_NARRATIVES = 200;
+
+function generatedImageOf(job: GenerationJob): GeneratedImage {
+    return {
+        imageUrl: job.imageUrl || "",
+        prompt: job.request.prompt,
+        seed: job.request.seed,
+        provider: job.provider
+    };
+}
+
+function jobError(job: GenerationJob): ImageApiError {
+    return new ImageApiError(job.errorKind || 'unknown', job.error || "Generation failed");
+}
+
+// Identifies the saved set of pending jobs, to save chat state only when it changes
+function jobsKey(jobs: GenerationJob[]): string {
+    return jobs.map(job => `${job.id}:${job.providerJobId}`).join(',');
+}
+
+// Added to the prompt of the 2nd, 3rd and 4th candidate with candidate_variation 'prompt'
+const CANDIDATE_VARIATIONS = ["alternate camera angle", "closer framing", "wide establishing shot"];
+
+// Same location, time and cast give the same key, so 'scene' seeds stay put within a scene
+function sceneSeedKey(context: SceneContext): string {
+    const cast = context.characters.map(name => name.toLowerCase()).sort().join(',');
+    return `${context.location}|${context.timeOfDay}|${cast}`;
+}
+
+// Scene fields offered for correction in the preview, in display order
+const PREVIEW_FIELDS: [EditableField, string][] = [
+    ['characters', "Characters"],
+    ['location', "Location"],
+    ['actions', "Action"],
+    ['mood', "Mood"],
+    ['timeOfDay', "Time of day"]
+];
+
+const FRAME_PHRASES: Record<FramePosition, string> = {
+    left: "on the left",
+    center: "in the center",
+    right: "on the right",
+    background: "in the background"
+};
+
+// "Janessa (37-year-old woman, wearing a red scarf, smiling, sitting, on the left)"
+function describePerson(person: SceneCharacter, framed: boolean): string {
+    const details = [
+        person.appearance,
+        person.outfit ? `wearing ${person.outfit}` : undefined,
+        person.expression,
+        person.pose,
+        person.holding ? `holding ${person.holding}` : undefined,
+        framed && person.position ? FRAME_PHRASES[person.position] : undefined
+    ].filter(Boolean);
+    return details.length > 0 ? `${person.name} (${details.join(', ')})` : person.name;
+}
+
+function sceneImageOf(entry: ChronicleEntry): SceneImage {
+    return {
+        entryId: entry.id,
+        imageUrl: entry.imageUrl,
+        prompt: entry.prompt,
+        sceneContext: entry.sceneContext
+    };
+}
+
+function latestBotMessageId(history: ConversationMessage[]): string | undefined {
+    return latestBotMessage(history)?.messageId;
+}
+
+function latestBotMessage(history: ConversationMessage[]): ConversationMessage | undefined {
+    for (let i = history.length - 1; i >= 0; i--) {
+        if (!history[i].isUser) {
+            return history[i];
+        }
+    }
+    return undefined;
+}
+
+// Parses the character_projects setting: "Janessa=creator/janessa-1234, Susan=4365803"
+function parseCharacterProjects(setting: string): Record<string, string> {
+    const projects: Record<string, string> = {};
+    for (const pair of setting.split(/[,;\n]/)) {
+        const [name, project] = pair.split('=').map(part => part.trim());
+        if (name && project) {
+            projects[name.toLowerCase()] = project;
+        }
+    }
+    return projects;
+}
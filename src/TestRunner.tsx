@@ -1,6 +1,6 @@
 import {Stage} from "./Stage";
 import {useEffect, useState} from "react";
-import {DEFAULT_INITIAL, StageBase, InitialData} from "@chub-ai/stages-ts";
+import {DEFAULT_INITIAL, DEFAULT_MESSAGE, StageBase, InitialData} from "@chub-ai/stages-ts";
 
 // Modify this JSON to include whatever character/user information you want to test.
 import InitData from './assets/test-init.json';
@@ -9,6 +9,8 @@ export interface TestStageRunnerProps<StageType extends StageBase<InitStateType,
     factory: (data: InitialData<InitStateType, ChatStateType, MessageStateType, ConfigType>) => StageType;
 }
 
+const MOCK_API_PATH = '/mock-api';
+
 /***
  This is a testing class for running a stage locally when testing,
     outside the context of an active chat. See runTests() below for the main idea.
@@ -28,6 +30,15 @@ export const TestStageRunner = <StageType extends StageBase<InitStateType, ChatS
         setNode(new Date());
     }
 
+    // Scripts the next generations of the local mock image API (see mock/mockImageApi.ts)
+    async function setMockScenario(scenario: {mode: string, polls?: number}) {
+        await fetch(`${MOCK_API_PATH}/__scenario`, {
+            method: 'POST',
+            headers: {'Content-Type': 'application/json'},
+            body: JSON.stringify(scenario)
+        });
+    }
+
     async function delayedTest(test: any, delaySeconds: number) {
         await new Promise(f => setTimeout(f, delaySeconds * 1000));
         return test();
@@ -81,6 +92,38 @@ export const TestStageRunner = <StageType extends StageBase<InitStateType, ChatS
         console.assert(afterDelayedThing.error == null);
         refresh();
         */
+
+        /***
+         Scene capture against the mock image API, which the dev server serves at /mock-api.
+         Only runs while test-init.json points image_api_base_url there, so it never spends real credits.
+         ***/
+        if (InitData.config?.image_api_base_url !== MOCK_API_PATH) {
+            return;
+        }
+
+        await stage.beforePrompt({...DEFAULT_MESSAGE, ...{
+            anonymizedId: "0", content: "Meet me in the library tonight, we have an exam to study for.", isBot: false
+        }});
+        await stage.afterResponse({...DEFAULT_MESSAGE, ...{
+            anonymizedId: "1", content: "Janessa smiled and opened her notes at the long wooden table.", isBot: true, promptForId: null
+        }});
+        refresh();
+
+        const scenarios = [
+            {mode: 'immediate'},
+            {mode: 'polls', polls: 3},
+            {mode: 'failed'},
+            {mode: 'never'},
+            {mode: 'reject422'},
+            {mode: 'immediate'}
+        ];
+        for (const scenario of scenarios) {
+            await setMockScenario(scenario);
+            await stage.captureScene();
+            console.info(`Mock scenario '${scenario.mode}': ${stage.visualState.generationProgress}`,
+                stage.visualState.errorMessage || stage.visualState.lastGeneratedImage);
+            refresh();
+        }
     }
 
     useEffect(() => {
@@ -0,0 +1,66 @@
+import {describe, expect, it, vi} from "vitest";
+import {exportStorybook, StorybookScene} from "./Storybook";
+import {readZip} from "../testHelpers";
+
+const SCENES: StorybookScene[] = [
+    {
+        id: "a",
+        kind: 'capture',
+        imageUrl: "https://images.example/a.png",
+        prompt: "cinematic scene: Janessa studying at library",
+        seed: 42,
+        provider: 'chub',
+        timestamp: Date.UTC(2026, 9, 19, 20),
+        sceneContext: { characters: ["Janessa"], location: "library", actions: "studying", mood: "calm", timeOfDay: "night" },
+        narrative: "Janessa read on <late> into the night.",
+        message: "Janessa smiled and opened her notes."
+    },
+    {
+        id: "b",
+        kind: 'refinement',
+        imageUrl: "https://images.example/b.png",
+        prompt: "set in a library, not a cafe",
+        seed: 43,
+        provider: 'chub',
+        timestamp: Date.UTC(2026, 9, 19, 21),
+        sceneContext: { characters: ["Janessa"], location: "library", actions: "studying", mood: "calm", timeOfDay: "night" },
+        parentImage: "https://images.example/a.png"
+    }
+];
+
+const PNG = { bytes: new Uint8Array([1, 2, 3]), mimeType: 'image/png' };
+
+describe("exportStorybook", () => {
+    it("embeds the images in a self-contained HTML storybook", async () => {
+        const file = await exportStorybook('html', "Janessa Storybook", SCENES, async () => PNG);
+
+        expect(file).toMatchObject({ fileName: "janessa-storybook.html", mimeType: 'text/html' });
+        const html = file.data as string;
+        expect(html).toContain('<img src="data:image/png;base64,AQID"');
+        expect(html).toContain("Janessa read on &#60;late&#62; into the night.");
+        expect(html).toContain("<blockquote>Janessa smiled and opened her notes.</blockquote>");
+        expect(html).toContain("(refined)");
+        expect(html).not.toContain("https://images.example/a.png\"");
+    });
+
+    it("packs images, a manifest and the storybook into a ZIP", async () => {
+        const fetchImage = vi.fn().mockResolvedValueOnce(PNG).mockResolvedValueOnce(null);
+
+        const file = await exportStorybook('zip', "Janessa Storybook", SCENES, fetchImage);
+
+        expect(file).toMatchObject({ fileName: "janessa-storybook.zip", mimeType: 'application/zip' });
+        const files = readZip(file.data as Uint8Array);
+        expect(Object.keys(files)).toEqual(["images/001-capture.png", "manifest.json", "storybook.html"]);
+
+        const manifest = JSON.parse(new TextDecoder().decode(files["manifest.json"]));
+        expect(manifest.title).toBe("Janessa Storybook");
+        expect(manifest.scenes[0]).toMatchObject({ index: 1, file: "images/001-capture.png", prompt: SCENES[0].prompt, seed: 42 });
+        expect(manifest.scenes[0].sceneContext).toEqual(SCENES[0].sceneContext);
+        // A failed download keeps the original URL
+        expect(manifest.scenes[1]).toMatchObject({ file: null, imageUrl: "https://images.example/b.png" });
+
+        const html = new TextDecoder().decode(files["storybook.html"]);
+        expect(html).toContain('<img src="images/001-capture.png"');
+        expect(html).toContain('<img src="https://images.example/b.png"');
+    });
+});
@@ -0,0 +1,168 @@
+import axios from "axios";
+import {SceneContext} from "../scene/SceneTracker";
+import {createZip} from "./Zip";
+
+// Exports saved scenes as an illustrated storybook: a single HTML file with the images embedded,
+// or a ZIP holding the image files, a JSON manifest (prompts, seeds, SceneContext) and the same
+// storybook pointing at the files. Images that cannot be fetched keep their original URL.
+
+export type StorybookFormat = 'html' | 'zip';
+
+export interface StorybookScene {
+    id: string;
+    kind: 'capture' | 'refinement';
+    imageUrl: string;
+    prompt: string;
+    seed: number;
+    provider: string;
+    timestamp: number;
+    sceneContext: SceneContext;
+    parentImage?: string;
+    narrative?: string;
+    // The story text the scene was captured at
+    message?: string;
+}
+
+export interface StorybookImage {
+    bytes: Uint8Array;
+    mimeType: string;
+}
+
+export type ImageFetcher = (url: string) => Promise<StorybookImage | null>;
+
+export interface ExportFile {
+    fileName: string;
+    mimeType: string;
+    data: Uint8Array | string;
+}
+
+const EXTENSIONS: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+    'image/gif': 'gif',
+    'image/svg+xml': 'svg'
+};
+
+export async function exportStorybook(format: StorybookFormat, title: string, scenes: StorybookScene[],
+                                      fetchImage: ImageFetcher = fetchStorybookImage): Promise<ExportFile> {
+    // One at a time; a storybook is a handful of images and the image host may rate limit
+    const images: (StorybookImage | null)[] = [];
+    for (const scene of scenes) {
+        images.push(await fetchImage(scene.imageUrl));
+    }
+    const baseName = slug(title) || "storybook";
+
+    if (format === 'html') {
+        const html = renderStorybook(title, scenes, (scene, index) => {
+            const image = images[index];
+            return image ? `data:${image.mimeType};base64,${toBase64(image.bytes)}` : scene.imageUrl;
+        });
+        return { fileName: `${baseName}.html`, mimeType: 'text/html', data: html };
+    }
+
+    const files = scenes.map((scene, index) => {
+        const image = images[index];
+        return image ? `images/${String(index + 1).padStart(3, '0')}-${scene.kind}.${EXTENSIONS[image.mimeType] || 'png'}` : null;
+    });
+    const zip = createZip([
+        ...scenes.flatMap((_, index) => files[index] ? [{ name: files[index]!, data: images[index]!.bytes }] : []),
+        { name: "manifest.json", data: JSON.stringify(storybookManifest(title, scenes, files), null, 2) },
+        { name: "storybook.html", data: renderStorybook(title, scenes, (scene, index) => files[index] || scene.imageUrl) }
+    ]);
+    return { fileName: `${baseName}.zip`, mimeType: 'application/zip', data: zip };
+}
+
+export function storybookManifest(title: string, scenes: StorybookScene[], files: (string | null)[]) {
+    return {
+        title,
+        exportedAt: new Date().toISOString(),
+        scenes: scenes.map((scene, index) => ({
+            index: index + 1,
+            // Path in the archive; null when the image could not be downloaded
+            file: files[index],
+            ...scene
+        }))
+    };
+}
+
+// `imageSrc` decides where each image comes from: a data URL, a file in the ZIP or the original URL
+export function renderStorybook(title: string, scenes: StorybookScene[], imageSrc: (scene: StorybookScene, index: number) => string): string {
+    const pages = scenes.map((scene, index) => {
+        const context = scene.sceneContext;
+        const meta = [context.characters.join(", "), context.location, context.timeOfDay, context.mood].filter(Boolean).join(" • ");
+        return `<section class="scene">
+<img src="${escapeHtml(imageSrc(scene, index))}" alt="${escapeHtml(meta)}">
+<p class="meta">${index + 1}. ${escapeHtml(meta)}${scene.kind === 'refinement' ? " (refined)" : ""} — ${escapeHtml(new Date(scene.timestamp).toLocaleString())}</p>
+${scene.narrative ? `<p class="narrative">${escapeHtml(scene.narrative)}</p>\n` : ""}${scene.message ? `<blockquote>${escapeHtml(scene.message)}</blockquote>\n` : ""}<details><summary>Prompt</summary><p>${escapeHtml(scene.prompt)}</p><p>Seed ${scene.seed} • ${escapeHtml(scene.provider)}</p></details>
+</section>`;
+    });
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+body { margin: 0 auto; max-width: 820px; padding: 24px; background: #16213e; color: #eee; font-family: Georgia, serif; }
+h1 { color: #ffd700; text-align: center; }
+.scene { margin: 40px 0; }
+.scene img { width: 100%; border-radius: 10px; border: 2px solid rgba(255, 215, 0, 0.5); }
+.meta { font-size: 13px; opacity: 0.7; font-style: italic; }
+.narrative { font-size: 17px; line-height: 1.6; }
+blockquote { margin: 12px 0; padding-left: 12px; border-left: 3px solid #ffd700; opacity: 0.85; white-space: pre-wrap; }
+details { font-size: 12px; opacity: 0.6; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+${pages.length > 0 ? pages.join("\n") : "<p>No scenes captured yet.</p>"}
+</body>
+</html>
+`;
+}
+
+export const fetchStorybookImage: ImageFetcher = async url => {
+    try {
+        const response = await axios.get<ArrayBuffer>(url, { responseType: 'arraybuffer', timeout: 30000 });
+        const mimeType = String(response.headers['content-type'] || "").split(";")[0].trim() || mimeTypeFromUrl(url);
+        return { bytes: new Uint8Array(response.data), mimeType };
+    } catch (error) {
+        console.warn(`Could not download ${url} for the storybook:`, error instanceof Error ? error.message : error);
+        return null;
+    }
+};
+
+// Saves an export through a temporary link; browser only
+export function downloadFile(file: ExportFile) {
+    const url = URL.createObjectURL(new Blob([file.data], { type: file.mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+function mimeTypeFromUrl(url: string): string {
+    const extension = url.split(/[?#]/)[0].split('.').pop()?.toLowerCase() || "";
+    return Object.keys(EXTENSIONS).find(mimeType => EXTENSIONS[mimeType] === extension) ||
+        (extension === 'jpeg' ? 'image/jpeg' : 'image/png');
+}
+
+function toBase64(bytes: Uint8Array): string {
+    let binary = "";
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/[&<>"']/g, character => `&#${character.charCodeAt(0)};`);
+}
+
+function slug(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60);
+}
@@ -0,0 +1,27 @@
+import {describe, expect, it} from "vitest";
+import {crc32, createZip} from "./Zip";
+import {readZip} from "../testHelpers";
+
+describe("createZip", () => {
+    it("computes the standard CRC-32", () => {
+        expect(crc32(new TextEncoder().encode("hello"))).toBe(0x3610a686);
+        expect(crc32(new Uint8Array())).toBe(0);
+    });
+
+    it("stores every entry so it can be read back", () => {
+        const image = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0, 255]);
+        const zip = createZip([
+            { name: "images/001-capture.png", data: image },
+            { name: "manifest.json", data: '{"title": "Storybook – ünïcode"}' }
+        ]);
+
+        const files = readZip(zip);
+        expect(Object.keys(files)).toEqual(["images/001-capture.png", "manifest.json"]);
+        expect([...files["images/001-capture.png"]]).toEqual([...image]);
+        expect(JSON.parse(new TextDecoder().decode(files["manifest.json"]))).toEqual({ title: "Storybook – ünïcode" });
+
+        const header = new DataView(zip.buffer);
+        expect(header.getUint32(0, true)).toBe(0x04034b50);
+        expect(header.getUint32(14, true)).toBe(crc32(image));
+    });
+});
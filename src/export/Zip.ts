@@ -0,0 +1,107 @@
+// Minimal ZIP writer for exports. Entries are stored without compression: the payload is mostly
+// images that are compressed already, and it keeps the stage free of a zip dependency.
+
+export interface ZipEntry {
+    // Path inside the archive, forward slashes
+    name: string;
+    data: Uint8Array | string;
+    modified?: Date;
+}
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+export function crc32(data: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+        crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+export function createZip(entries: ZipEntry[]): Uint8Array {
+    const encoder = new TextEncoder();
+    const locals: Uint8Array[] = [];
+    const centrals: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = encoder.encode(entry.name);
+        const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+        const crc = crc32(data);
+        const { time, date } = dosDateTime(entry.modified || new Date());
+
+        const local = new Uint8Array(30 + name.length);
+        const header = new DataView(local.buffer);
+        header.setUint32(0, 0x04034b50, true);
+        header.setUint16(4, 20, true);
+        // Bit 11: names are UTF-8
+        header.setUint16(6, 0x0800, true);
+        header.setUint16(8, 0, true);
+        header.setUint16(10, time, true);
+        header.setUint16(12, date, true);
+        header.setUint32(14, crc, true);
+        header.setUint32(18, data.length, true);
+        header.setUint32(22, data.length, true);
+        header.setUint16(26, name.length, true);
+        header.setUint16(28, 0, true);
+        local.set(name, 30);
+
+        const central = new Uint8Array(46 + name.length);
+        const record = new DataView(central.buffer);
+        record.setUint32(0, 0x02014b50, true);
+        record.setUint16(4, 20, true);
+        record.setUint16(6, 20, true);
+        record.setUint16(8, 0x0800, true);
+        record.setUint16(10, 0, true);
+        record.setUint16(12, time, true);
+        record.setUint16(14, date, true);
+        record.setUint32(16, crc, true);
+        record.setUint32(20, data.length, true);
+        record.setUint32(24, data.length, true);
+        record.setUint16(28, name.length, true);
+        record.setUint32(42, offset, true);
+        central.set(name, 46);
+
+        locals.push(local, data);
+        centrals.push(central);
+        offset += local.length + data.length;
+    }
+
+    const centralSize = centrals.reduce((size, central) => size + central.length, 0);
+    const end = new Uint8Array(22);
+    const footer = new DataView(end.buffer);
+    footer.setUint32(0, 0x06054b50, true);
+    footer.setUint16(8, entries.length, true);
+    footer.setUint16(10, entries.length, true);
+    footer.setUint32(12, centralSize, true);
+    footer.setUint32(16, offset, true);
+
+    return concat([...locals, ...centrals, end]);
+}
+
+function dosDateTime(when: Date): { time: number, date: number } {
+    return {
+        time: (when.getHours() << 11) | (when.getMinutes() << 5) | Math.floor(when.getSeconds() / 2),
+        date: ((Math.max(1980, when.getFullYear()) - 1980) << 9) | ((when.getMonth() + 1) << 5) | when.getDate()
+    };
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+    let position = 0;
+    for (const part of parts) {
+        result.set(part, position);
+        position += part.length;
+    }
+    return result;
+}
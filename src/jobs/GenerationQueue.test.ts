@@ -0,0 +1,179 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from "vitest";
+import {GenerationQueue, NewGenerationJob} from "./GenerationQueue";
+import {ImageApiError, ImageJobUpdate, ImageProvider} from "../providers";
+
+const JOB: NewGenerationJob = {
+    kind: 'capture',
+    request: { prompt: "a library", width: 1024, height: 1024, steps: 30, guidanceScale: 3.5, seed: 0 },
+    sceneContext: { characters: ["Janessa"], location: "library", actions: "studying", mood: "calm", timeOfDay: "night" }
+};
+
+// Submits come back pending; each job is done after `polls` status checks
+function fakeProvider(polls: number): ImageProvider & { submitted: number, checks: number } {
+    let counter = 0;
+    const checks = new Map<string, number>();
+    return {
+        id: 'chub',
+        label: "Fake",
+        submitted: 0,
+        checks: 0,
+        capabilities: () => ({ img2img: true, cancel: false, polling: true, maxWidth: 1536, maxHeight: 1536, negativePrompt: true, seed: true }),
+        isConfigured: () => true,
+        async submit(): Promise<ImageJobUpdate> {
+            this.submitted++;
+            return { jobId: `job-${++counter}`, status: 'pending' };
+        },
+        async poll(jobId: string): Promise<ImageJobUpdate> {
+            this.checks++;
+            const count = (checks.get(jobId) || 0) + 1;
+            checks.set(jobId, count);
+            return count >= polls ? { jobId, status: 'done', imageUrl: `${jobId}.png` } : { jobId, status: 'pending' };
+        },
+        cancel: vi.fn(async () => {})
+    };
+}
+
+const OPTIONS = {
+    concurrency: 1,
+    pollIntervalMs: 100,
+    maxPollIntervalMs: 400,
+    maxPollAttempts: 10,
+    maxWaitMs: 60000,
+    retry: { retries: 2, baseDelayMs: 1000, maxDelayMs: 8000 }
+};
+
+describe("GenerationQueue", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("backs off exponentially between status checks up to the cap", async () => {
+        const provider = fakeProvider(5);
+        const queue = new GenerationQueue(provider, OPTIONS);
+
+        const finished = queue.enqueue(JOB);
+        const checksAt: number[] = [];
+        for (const step of [100, 200, 400, 400, 400]) {
+            await vi.advanceTimersByTimeAsync(step - 1);
+            checksAt.push(provider.checks);
+            await vi.advanceTimersByTimeAsync(1);
+        }
+
+        expect(checksAt).toEqual([0, 1, 2, 3, 4]);
+        expect(await finished).toMatchObject({ status: 'done', imageUrl: "job-1.png", polls: 5 });
+    });
+
+    it("times out by elapsed time even when attempts remain", async () => {
+        const provider = fakeProvider(100);
+        const queue = new GenerationQueue(provider, { ...OPTIONS, maxPollAttempts: 100, maxWaitMs: 1000 });
+
+        const finished = queue.enqueue(JOB);
+        await vi.advanceTimersByTimeAsync(1000);
+
+        // Checks at 100, 300, 700 and a last one cut short at the deadline
+        expect(await finished).toMatchObject({ status: 'failed', errorKind: 'timeout', polls: 4 });
+        expect(provider.cancel).toHaveBeenCalledWith("job-1");
+    });
+
+    it("runs jobs in order up to the concurrency limit", async () => {
+        const provider = fakeProvider(1);
+        const queue = new GenerationQueue(provider, OPTIONS);
+
+        const first = queue.enqueue(JOB);
+        const second = queue.enqueue(JOB);
+        await vi.advanceTimersByTimeAsync(0);
+        expect(queue.jobs.map(job => job.status)).toEqual(['running', 'queued']);
+
+        await vi.advanceTimersByTimeAsync(100);
+        expect((await first).status).toBe('done');
+        await vi.advanceTimersByTimeAsync(100);
+        expect((await second).imageUrl).toBe("job-2.png");
+    });
+
+    it("cancels queued and running jobs", async () => {
+        const provider = fakeProvider(100);
+        const queue = new GenerationQueue(provider, OPTIONS);
+        const running = queue.enqueue(JOB);
+        const queued = queue.enqueue(JOB);
+        await vi.advanceTimersByTimeAsync(0);
+
+        const [runningJob, queuedJob] = queue.jobs;
+        await queue.cancel(queuedJob.id);
+        await queue.cancel(runningJob.id);
+
+        expect(await queued).toMatchObject({ status: 'cancelled' });
+        expect(await running).toMatchObject({ status: 'cancelled' });
+        expect(provider.cancel).toHaveBeenCalledWith("job-1");
+        expect(provider.submitted).toBe(1);
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(provider.checks).toBe(0);
+    });
+
+    it("aborts the request of a running synchronous job", async () => {
+        const provider = fakeProvider(1);
+        let aborted = false;
+        // Like Poe: the request only resolves once the image exists, so there is no job id to cancel yet
+        provider.submit = (_request, signal) => new Promise((_resolve, reject) => {
+            signal?.addEventListener('abort', () => {
+                aborted = true;
+                reject(new Error("canceled"));
+            });
+        });
+        const queue = new GenerationQueue(provider, OPTIONS);
+        const running = queue.enqueue(JOB);
+        await vi.advanceTimersByTimeAsync(0);
+
+        await queue.cancel(queue.jobs[0].id);
+
+        expect(aborted).toBe(true);
+        expect(await running).toMatchObject({ status: 'cancelled' });
+        await vi.advanceTimersByTimeAsync(10000);
+        expect(queue.jobs).toHaveLength(0);
+    });
+
+    it("retries transient submit failures and fails fast on the rest", async () => {
+        const provider = fakeProvider(1);
+        const submit = provider.submit.bind(provider);
+        const failures = [new ImageApiError('rate_limit', "Too many requests", 429, 2000), new ImageApiError('auth', "Invalid key", 401)];
+        provider.submit = async request => {
+            const failure = failures.shift();
+            if (failure) {
+                throw failure;
+            }
+            return submit(request);
+        };
+        const changes: string[] = [];
+        const queue = new GenerationQueue(provider, OPTIONS, job => changes.push(job.progress));
+
+        const finished = queue.enqueue(JOB);
+        await vi.advanceTimersByTimeAsync(2000);
+
+        expect(changes).toContain("Rate limited - retrying in 2s (1/2)");
+        expect(await finished).toMatchObject({ status: 'failed', errorKind: 'auth', error: "Invalid key" });
+        expect(provider.submitted).toBe(0);
+    });
+
+    it("reports submitted jobs as resumable and resumes them", async () => {
+        const provider = fakeProvider(2);
+        const changes: string[] = [];
+        const queue = new GenerationQueue(provider, OPTIONS, job => changes.push(job.progress));
+        queue.enqueue(JOB);
+        await vi.advanceTimersByTimeAsync(0);
+
+        const saved = queue.resumable.map(job => ({ ...job }));
+        expect(saved).toHaveLength(1);
+        expect(changes).toContain("Submitted");
+
+        const reloaded = new GenerationQueue(provider, OPTIONS);
+        const resumed = reloaded.resume(saved[0])!;
+        await vi.advanceTimersByTimeAsync(1000);
+
+        expect(await resumed).toMatchObject({ status: 'done', imageUrl: "job-1.png" });
+        expect(provider.submitted).toBe(1);
+        expect(reloaded.resume({ ...saved[0], provider: 'poe-flux' })).toBeNull();
+    });
+});
@@ -0,0 +1,232 @@
+import {
+    failureError,
+    ImageApiError,
+    ImageErrorKind,
+    ImageGenerationRequest,
+    ImageProvider,
+    ImageProviderId,
+    RetryPolicy,
+    toImageApiError,
+    withRetry
+} from "../providers";
+import {SceneContext} from "../scene/SceneTracker";
+import {generateUUID} from "../util";
+
+// Image generations as queued jobs: every capture or refinement image is one job with an id,
+// its own progress line and a cancel. Up to `concurrency` jobs run at once, status checks back
+// off exponentially, and jobs the provider has already accepted can be saved and picked up
+// again by a reloaded stage instead of losing the image. Transient submit failures are retried
+// per the retry policy; every failure ends with a typed errorKind.
+
+export type GenerationJobKind = 'capture' | 'refinement';
+
+export type GenerationJobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface GenerationJob {
+    id: string;
+    kind: GenerationJobKind;
+    status: GenerationJobStatus;
+    progress: string;
+    provider: ImageProviderId;
+    request: ImageGenerationRequest;
+    sceneContext: SceneContext;
+    // The image a refinement started from
+    parentImage?: string;
+    // The provider's id for the job (Chub's generation_uuid) once submitted
+    providerJobId?: string;
+    polls: number;
+    createdAt: number;
+    imageUrl?: string;
+    error?: string;
+    errorKind?: ImageErrorKind;
+}
+
+export type NewGenerationJob = Pick<GenerationJob, 'kind' | 'request' | 'sceneContext' | 'parentImage'>;
+
+export interface GenerationQueueOptions {
+    concurrency: number;
+    // First delay between status checks; each later one doubles up to maxPollIntervalMs
+    pollIntervalMs: number;
+    maxPollIntervalMs: number;
+    maxPollAttempts: number;
+    // Longest wait for an image once submitted, whatever the attempt count; backoff stretches the checks out
+    maxWaitMs: number;
+    retry: RetryPolicy;
+}
+
+const RETRY_LABELS: Partial<Record<ImageErrorKind, string>> = {
+    rate_limit: "Rate limited",
+    timeout: "Request timed out",
+    network: "Network error",
+    server: "Server error"
+};
+
+export class GenerationQueue {
+    // Unfinished jobs, oldest first
+    private active: GenerationJob[] = [];
+    private settle = new Map<string, (job: GenerationJob) => void>();
+    // Aborts the submit request of a running job; synchronous providers hold it until the image is ready
+    private submits = new Map<string, AbortController>();
+    private running = 0;
+
+    constructor(private provider: ImageProvider,
+                private options: GenerationQueueOptions,
+                private onChange: (job: GenerationJob) => void = () => {}) {
+    }
+
+    get jobs(): GenerationJob[] {
+        return [...this.active];
+    }
+
+    // Submitted jobs a later session can keep polling; providers without polling finish in one call
+    get resumable(): GenerationJob[] {
+        if (!this.provider.capabilities().polling) {
+            return [];
+        }
+        return this.active.filter(job => job.status === 'running' && !!job.providerJobId);
+    }
+
+    // Resolves with the finished job whether it succeeded, failed or was cancelled
+    enqueue(job: NewGenerationJob): Promise<GenerationJob> {
+        return this.track({
+            ...job,
+            id: generateUUID(),
+            status: 'queued',
+            progress: "Queued",
+            provider: this.provider.id,
+            polls: 0,
+            createdAt: Date.now()
+        });
+    }
+
+    // Picks up a job saved by an earlier session; null when this provider cannot continue it
+    resume(job: GenerationJob): Promise<GenerationJob> | null {
+        if (!job.providerJobId || job.provider !== this.provider.id || !this.provider.capabilities().polling) {
+            return null;
+        }
+        // A fresh round of status checks, starting quickly again
+        return this.track({ ...job, status: 'queued', progress: "Resuming...", polls: 0 });
+    }
+
+    async cancel(jobId: string): Promise<void> {
+        const job = this.active.find(candidate => candidate.id === jobId);
+        if (!job) {
+            return;
+        }
+        this.finish(job, { status: 'cancelled', progress: "Cancelled" });
+        this.submits.get(job.id)?.abort();
+        if (job.providerJobId) {
+            await this.provider.cancel(job.providerJobId).catch(error => console.warn("Provider cancel failed:", error));
+        }
+    }
+
+    private track(job: GenerationJob): Promise<GenerationJob> {
+        this.active.push(job);
+        const finished = new Promise<GenerationJob>(resolve => this.settle.set(job.id, resolve));
+        this.onChange(job);
+        this.pump();
+        return finished;
+    }
+
+    private pump() {
+        while (this.running < this.options.concurrency) {
+            const next = this.active.find(job => job.status === 'queued');
+            if (!next) {
+                return;
+            }
+            this.running++;
+            this.update(next, { status: 'running', progress: next.providerJobId ? "Resuming..." : "Submitting..." });
+            this.run(next).finally(() => {
+                this.running--;
+                this.pump();
+            });
+        }
+    }
+
+    private async run(job: GenerationJob) {
+        const { maxPollAttempts, maxWaitMs, retry } = this.options;
+        let providerJobId = job.providerJobId;
+        try {
+            if (!providerJobId) {
+                const controller = new AbortController();
+                this.submits.set(job.id, controller);
+                const submit = () => controller.signal.aborted ?
+                    Promise.reject(new ImageApiError('unknown', "Cancelled")) :
+                    this.provider.submit(job.request, controller.signal);
+                const submitted = await withRetry(submit, retry, (error, delayMs, attempt) => {
+                    if (job.status === 'running') {
+                        this.update(job, { progress: `${RETRY_LABELS[error.kind]} - retrying in ${Math.ceil(delayMs / 1000)}s (${attempt}/${retry.retries})` });
+                    }
+                }).finally(() => this.submits.delete(job.id));
+                if (job.status !== 'running') {
+                    return;
+                }
+                if (submitted.status === 'done' && submitted.imageUrl) {
+                    return this.finish(job, { status: 'done', progress: "Done", imageUrl: submitted.imageUrl, providerJobId: submitted.jobId });
+                }
+                if (submitted.status === 'failed') {
+                    return this.finish(job, { ...failed(failureError(submitted.error)), providerJobId: submitted.jobId });
+                }
+                // Reported so the caller can save it for a reload
+                providerJobId = submitted.jobId;
+                this.update(job, { providerJobId, progress: "Submitted" });
+            }
+
+            const deadline = Date.now() + maxWaitMs;
+            while (job.polls < maxPollAttempts && Date.now() < deadline) {
+                this.update(job, { polls: job.polls + 1, progress: `Generating... ${job.polls + 1}/${maxPollAttempts}` });
+                await new Promise(resolve => setTimeout(resolve, Math.min(this.pollDelay(job.polls), Math.max(0, deadline - Date.now()))));
+                if (job.status !== 'running') {
+                    return;
+                }
+
+                try {
+                    const result = await this.provider.poll(providerJobId);
+                    if (job.status !== 'running') {
+                        return;
+                    }
+                    if (result.status === 'done' && result.imageUrl) {
+                        return this.finish(job, { status: 'done', progress: "Done", imageUrl: result.imageUrl });
+                    }
+                    if (result.status === 'failed') {
+                        return this.finish(job, failed(failureError(result.error)));
+                    }
+                } catch (pollError) {
+                    // A missed status check is worth another try; a rejected key or request is not
+                    const error = toImageApiError(pollError);
+                    if (!error.retryable) {
+                        return this.finish(job, failed(error));
+                    }
+                    console.warn(`Poll attempt ${job.polls} failed:`, pollError);
+                }
+            }
+
+            this.finish(job, failed(new ImageApiError('timeout', `No image after ${job.polls} checks in ${Math.round(maxWaitMs / 1000)}s`), "Timed out"));
+            await this.provider.cancel(providerJobId);
+        } catch (error) {
+            if (job.status === 'running') {
+                this.finish(job, failed(toImageApiError(error)));
+            }
+        }
+    }
+
+    private pollDelay(attempt: number): number {
+        return Math.min(this.options.maxPollIntervalMs, this.options.pollIntervalMs * 2 ** (attempt - 1));
+    }
+
+    private update(job: GenerationJob, changes: Partial<GenerationJob>) {
+        Object.assign(job, changes);
+        this.onChange(job);
+    }
+
+    private finish(job: GenerationJob, changes: Partial<GenerationJob>) {
+        this.active = this.active.filter(candidate => candidate !== job);
+        this.update(job, changes);
+        this.settle.get(job.id)?.(job);
+        this.settle.delete(job.id);
+    }
+}
+
+function failed(error: ImageApiError, progress: string = "Failed"): Partial<GenerationJob> {
+    return { status: 'failed', progress, error: error.message, errorKind: error.kind };
+}
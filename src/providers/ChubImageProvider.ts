@@ -0,0 +1,126 @@
+import axios from "axios";
+import {ImageGenerationRequest, ImageJobUpdate, ImageProvider, ImageProviderCapabilities} from "./ImageProvider";
+import {generateUUID} from "../util";
+
+export const CHUB_API_BASE_URL = "https://api.chub.ai";
+
+// Chub Imagine API - text2img/img2img submission plus /check polling
+export class ChubImageProvider implements ImageProvider {
+    readonly id = 'chub' as const;
+    readonly label = "Chub";
+
+    // Chub has no abort endpoint, so cancelled jobs are only forgotten locally
+    private cancelledJobs = new Set<string>();
+
+    constructor(private apiKey: string, private baseUrl: string = CHUB_API_BASE_URL) {
+    }
+
+    capabilities(): ImageProviderCapabilities {
+        return {
+            img2img: true,
+            cancel: false,
+            polling: true,
+            maxWidth: 1536,
+            maxHeight: 1536,
+            negativePrompt: true,
+            seed: true,
+            steps: { min: 1, max: 100 },
+            guidanceScale: { min: 1, max: 20 }
+        };
+    }
+
+    isConfigured(): boolean {
+        return !!this.apiKey;
+    }
+
+    async submit(request: ImageGenerationRequest, signal?: AbortSignal): Promise<ImageJobUpdate> {
+        const endpoint = request.referenceUrl ? "/images/img2img" : "/images/text2img";
+
+        const payload: Record<string, unknown> = {
+            prompt: request.prompt,
+            width: request.width,
+            height: request.height,
+            num_inference_steps: request.steps,
+            guidance_scale: request.guidanceScale,
+            seed: request.seed,
+            extension_source: "Visual Scene Composer",
+            chat_id: "stage",
+            uuid: generateUUID(),
+            mode: "standard",
+            sub_mode: "default",
+            parent_image: "",
+            item_id: ""
+        };
+
+        if (request.negativePrompt) {
+            payload.negative_prompt = request.negativePrompt;
+        }
+
+        if (request.referenceUrl) {
+            payload.init_image = request.referenceUrl;
+            payload.strength = request.strength ?? 0.7;
+        }
+
+        console.log('Sending image generation request:', payload);
+
+        const response = await axios.post(`${this.baseUrl}${endpoint}`, payload, {
+            headers: this.headers(),
+            timeout: 60000,
+            signal
+        });
+
+        console.log('Initial response:', response.data);
+
+        const generationUuid = response.data?.generation_uuid;
+        if (!generationUuid) {
+            throw new Error("No generation UUID received");
+        }
+
+        // Check if image is already complete in initial response
+        if (response.data.is_done && response.data.primary_image_path) {
+            return { jobId: generationUuid, status: 'done', imageUrl: response.data.primary_image_path };
+        }
+
+        return { jobId: generationUuid, status: 'pending' };
+    }
+
+    async poll(jobId: string): Promise<ImageJobUpdate> {
+        if (this.cancelledJobs.has(jobId)) {
+            return { jobId, status: 'failed', error: "Cancelled" };
+        }
+
+        const checkResponse = await axios.post(`${this.baseUrl}/check`, {
+            generation_uuid: jobId,
+            request_type: "image"
+        }, {
+            headers: this.headers(),
+            timeout: 5000
+        });
+
+        const result = checkResponse.data;
+
+        // Check multiple possible completion indicators
+        if (result.is_done || result.status === 'completed' || result.state === 'completed') {
+            const imageUrl = result.primary_image_path || result.image_url || result.url ||
+                (result.images && result.images.length > 0 ? result.images[0] : undefined);
+            if (imageUrl) {
+                return { jobId, status: 'done', imageUrl };
+            }
+        } else if (result.is_failed || result.status === 'failed' || result.state === 'error') {
+            return { jobId, status: 'failed', error: result.error || result.message || "Generation failed" };
+        }
+
+        return { jobId, status: 'pending' };
+    }
+
+    async cancel(jobId: string): Promise<void> {
+        this.cancelledJobs.add(jobId);
+    }
+
+    private headers() {
+        return {
+            'CH-API-KEY': this.apiKey,
+            'Content-Type': 'application/json'
+        };
+    }
+}
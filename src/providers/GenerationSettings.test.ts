@@ -0,0 +1,54 @@
+import {describe, expect, it} from "vitest";
+import {DEFAULT_GENERATION_SETTINGS, resolveGenerationSettings, seedFor} from "./GenerationSettings";
+import {ChubImageProvider} from "./ChubImageProvider";
+import {PoeFluxImageProvider} from "./PoeFluxImageProvider";
+
+const chub = new ChubImageProvider("key").capabilities();
+const poe = new PoeFluxImageProvider("key").capabilities();
+
+describe("resolveGenerationSettings", () => {
+    it("keeps the previous fixed parameters by default", () => {
+        const { settings, warnings } = resolveGenerationSettings({}, chub);
+
+        expect(settings).toEqual(DEFAULT_GENERATION_SETTINGS);
+        expect(warnings).toEqual([]);
+        expect(resolveGenerationSettings({ quality: 'high' }, chub).settings.steps).toBe(50);
+    });
+
+    it("sizes aspect ratio presets within the provider's maximum", () => {
+        expect(resolveGenerationSettings({ aspectRatio: 'portrait' }, chub).settings).toMatchObject({ width: 832, height: 1216 });
+
+        const banner = resolveGenerationSettings({ aspectRatio: 'banner' }, poe);
+        expect(banner.settings).toMatchObject({ width: 1408, height: 576 });
+        expect(banner.warnings).toHaveLength(1);
+
+        const unknown = resolveGenerationSettings({ aspectRatio: 'panorama' }, chub);
+        expect(unknown.settings.aspectRatio).toBe('square');
+        expect(unknown.warnings[0]).toContain("panorama");
+        expect(resolveGenerationSettings({ aspectRatio: 'toString' }, chub).settings.aspectRatio).toBe('square');
+    });
+
+    it("clamps values outside the provider's ranges", () => {
+        const { settings, warnings } = resolveGenerationSettings({ steps: 500, guidanceScale: 0, strength: 1.5 }, chub);
+
+        expect(settings).toMatchObject({ steps: 100, guidanceScale: 1, strength: 1 });
+        expect(warnings).toHaveLength(3);
+    });
+
+    it("reports settings the provider ignores, but not config defaults", () => {
+        expect(resolveGenerationSettings({ seed: 0, seedMode: 'fixed', guidanceScale: 3.5 }, poe).warnings).toEqual([]);
+
+        const { warnings } = resolveGenerationSettings({ negativePrompt: "blurry", seedMode: 'random', guidanceScale: 7 }, poe);
+        expect(warnings).toHaveLength(3);
+    });
+});
+
+describe("seedFor", () => {
+    it("locks the seed per scene in scene mode", () => {
+        const settings = { ...DEFAULT_GENERATION_SETTINGS, seedMode: 'scene' as const, seed: 7 };
+
+        expect(seedFor(settings, "library|night|janessa")).toBe(seedFor(settings, "library|night|janessa"));
+        expect(seedFor(settings, "library|night|janessa")).not.toBe(seedFor(settings, "cafe|night|janessa"));
+        expect(seedFor({ ...settings, seedMode: 'fixed' }, "cafe|night|janessa")).toBe(7);
+    });
+});
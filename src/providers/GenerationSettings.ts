@@ -0,0 +1,166 @@
+import {ImageProviderCapabilities} from "./ImageProvider";
+
+// User-facing generation parameters (aspect ratio, seed, guidance, steps, img2img strength,
+// negative prompt), resolved against what the selected provider accepts. Out-of-range values
+// are clamped and anything the provider ignores is reported, never silently sent.
+
+export type AspectRatio = 'square' | 'portrait' | 'landscape' | 'banner';
+
+// fixed: always `seed`; random: new seed per image; scene: one seed per location/time/cast
+export type SeedMode = 'fixed' | 'random' | 'scene';
+
+// As configured; anything unset falls back to the defaults below
+export interface GenerationOptions {
+    aspectRatio?: string;
+    negativePrompt?: string;
+    seedMode?: string;
+    seed?: number;
+    guidanceScale?: number;
+    steps?: number;
+    strength?: number;
+    // image_quality, which picks the step count when steps is not set
+    quality?: 'standard' | 'high';
+}
+
+export interface GenerationSettings {
+    aspectRatio: AspectRatio;
+    width: number;
+    height: number;
+    // Empty means the prompt preset's negative prompt is used
+    negativePrompt: string;
+    seedMode: SeedMode;
+    seed: number;
+    guidanceScale: number;
+    steps: number;
+    strength: number;
+}
+
+export const ASPECT_SIZES: Record<AspectRatio, { width: number, height: number }> = {
+    square: { width: 1024, height: 1024 },
+    portrait: { width: 832, height: 1216 },
+    landscape: { width: 1216, height: 832 },
+    // Wide strip for a stage shown in the ADJACENT position
+    banner: { width: 1536, height: 640 }
+};
+
+const ASPECT_RATIOS = Object.keys(ASPECT_SIZES) as AspectRatio[];
+const SEED_MODES: SeedMode[] = ['fixed', 'random', 'scene'];
+const MAX_SEED = 2 ** 32 - 1;
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+    aspectRatio: 'square',
+    ...ASPECT_SIZES.square,
+    negativePrompt: "",
+    seedMode: 'fixed',
+    seed: 0,
+    guidanceScale: 3.5,
+    steps: 30,
+    strength: 0.7
+};
+
+export function resolveGenerationSettings(options: GenerationOptions, capabilities: ImageProviderCapabilities): { settings: GenerationSettings, warnings: string[] } {
+    const warnings: string[] = [];
+    const defaults = DEFAULT_GENERATION_SETTINGS;
+
+    let aspectRatio = defaults.aspectRatio;
+    if (options.aspectRatio) {
+        if (ASPECT_RATIOS.includes(options.aspectRatio as AspectRatio)) {
+            aspectRatio = options.aspectRatio as AspectRatio;
+        } else {
+            warnings.push(`Unknown aspect_ratio "${options.aspectRatio}"; using square`);
+        }
+    }
+    const size = fitWithin(ASPECT_SIZES[aspectRatio], capabilities.maxWidth, capabilities.maxHeight);
+    if (size.width !== ASPECT_SIZES[aspectRatio].width) {
+        warnings.push(`${aspectRatio} images are limited to ${size.width}x${size.height} by this provider`);
+    }
+
+    let seedMode = defaults.seedMode;
+    if (options.seedMode) {
+        if (SEED_MODES.includes(options.seedMode as SeedMode)) {
+            seedMode = options.seedMode as SeedMode;
+        } else {
+            warnings.push(`Unknown seed_mode "${options.seedMode}"; using fixed`);
+        }
+    }
+
+    const negativePrompt = (options.negativePrompt || "").trim();
+    if (negativePrompt && !capabilities.negativePrompt) {
+        warnings.push("This provider does not support negative prompts; negative_prompt is ignored");
+    }
+    // Config defaults arrive filled in, so only values that differ from them are worth a warning
+    if ((!!options.seed || seedMode !== 'fixed') && !capabilities.seed) {
+        warnings.push("This provider does not accept a seed; seed settings are ignored");
+    }
+
+    return {
+        settings: {
+            aspectRatio,
+            ...size,
+            negativePrompt,
+            seedMode,
+            seed: clamp(Math.round(options.seed ?? defaults.seed), 0, MAX_SEED, "seed", warnings),
+            guidanceScale: withinRange(options.guidanceScale, defaults.guidanceScale, capabilities.guidanceScale, "guidance_scale", warnings),
+            steps: Math.round(withinRange(options.steps, options.quality === 'high' ? 50 : defaults.steps, capabilities.steps, "steps", warnings)),
+            strength: clamp(options.strength ?? defaults.strength, 0.05, 1, "img2img_strength", warnings)
+        },
+        warnings
+    };
+}
+
+// The seed to send for one image; `sceneKey` identifies the scene for the 'scene' mode
+export function seedFor(settings: GenerationSettings, sceneKey: string): number {
+    switch (settings.seedMode) {
+        case 'random':
+            return Math.floor(Math.random() * MAX_SEED);
+        case 'scene':
+            return (hashString(sceneKey) ^ settings.seed) >>> 0;
+        case 'fixed':
+        default:
+            return settings.seed;
+    }
+}
+
+// Scales down to the provider's maximum, keeping the ratio and multiples of 64
+function fitWithin(size: { width: number, height: number }, maxWidth: number, maxHeight: number): { width: number, height: number } {
+    const scale = Math.min(1, maxWidth / size.width, maxHeight / size.height);
+    if (scale === 1) {
+        return { ...size };
+    }
+    return {
+        width: Math.floor(size.width * scale / 64) * 64,
+        height: Math.floor(size.height * scale / 64) * 64
+    };
+}
+
+function withinRange(value: number | undefined, fallback: number, range: { min: number, max: number } | undefined, name: string, warnings: string[]): number {
+    if (value === undefined) {
+        return fallback;
+    }
+    if (!range) {
+        if (value !== fallback) {
+            warnings.push(`This provider does not accept ${name}; it is ignored`);
+        }
+        return value;
+    }
+    return clamp(value, range.min, range.max, name, warnings);
+}
+
+function clamp(value: number, min: number, max: number, name: string, warnings: string[]): number {
+    if (value < min || value > max || Number.isNaN(value)) {
+        const clamped = Number.isNaN(value) ? min : Math.min(max, Math.max(min, value));
+        warnings.push(`${name} ${value} is outside ${min}-${max}; using ${clamped}`);
+        return clamped;
+    }
+    return value;
+}
+
+// FNV-1a, enough to spread scene keys over the seed range
+function hashString(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
@@ -0,0 +1,71 @@
+import {afterEach, describe, expect, it, vi} from "vitest";
+import {AxiosError, AxiosHeaders} from "axios";
+import {failureError, ImageApiError, retryDelay, toImageApiError, withRetry} from "./ImageApiError";
+
+function httpError(status: number, data: unknown, headers: Record<string, string> = {}): AxiosError {
+    const config = { headers: new AxiosHeaders() };
+    return new AxiosError(`Request failed with status code ${status}`, undefined, config, undefined,
+        { status, statusText: "", data, headers, config });
+}
+
+const POLICY = { retries: 3, baseDelayMs: 1000, maxDelayMs: 5000 };
+
+describe("toImageApiError", () => {
+    it("classifies HTTP failures by status and body", () => {
+        expect(toImageApiError(httpError(401, { detail: "Missing CH-API-KEY header" }))).toMatchObject({ kind: 'auth', status: 401 });
+        expect(toImageApiError(httpError(503, {}))).toMatchObject({ kind: 'server', retryable: true });
+        expect(toImageApiError(httpError(429, {}, { 'retry-after': "3" }))).toMatchObject({ kind: 'rate_limit', retryAfterMs: 3000 });
+
+        const validation = toImageApiError(httpError(422, { detail: [{ loc: ["body", "prompt"], msg: "field required" }] }));
+        expect(validation).toMatchObject({ kind: 'validation', message: "prompt: field required", retryable: false });
+        expect(validation.userMessage).toBe("The image API rejected the request: prompt: field required");
+
+        expect(toImageApiError(httpError(400, { error: "Prompt flagged as NSFW" })).kind).toBe('content_policy');
+    });
+
+    it("tells timeouts from unreachable hosts", () => {
+        expect(toImageApiError(new AxiosError("timeout of 5000ms exceeded", 'ECONNABORTED')).kind).toBe('timeout');
+        expect(toImageApiError(new AxiosError("connect ECONNREFUSED", 'ECONNREFUSED')).kind).toBe('network');
+    });
+
+    it("reads content-policy rejections from failed job messages", () => {
+        expect(failureError("Image blocked by safety filter").kind).toBe('content_policy');
+        expect(failureError("GPU worker crashed").kind).toBe('unknown');
+        expect(failureError().message).toBe("Generation failed");
+    });
+});
+
+describe("withRetry", () => {
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it("spreads delays with jitter under the exponential ceiling", () => {
+        vi.spyOn(Math, 'random').mockReturnValueOnce(0).mockReturnValueOnce(1).mockReturnValueOnce(1);
+
+        expect(retryDelay(0, POLICY)).toBe(500);
+        expect(retryDelay(1, POLICY)).toBe(2000);
+        expect(retryDelay(5, POLICY)).toBe(5000);
+        expect(retryDelay(0, POLICY, new ImageApiError('rate_limit', "", 429, 60000))).toBe(5000);
+    });
+
+    it("retries transient failures until the policy runs out", async () => {
+        vi.useFakeTimers();
+        const call = vi.fn()
+            .mockRejectedValueOnce(httpError(502, {}))
+            .mockRejectedValueOnce(httpError(429, {}, { 'retry-after': "0" }))
+            .mockResolvedValueOnce("image");
+        const retries: string[] = [];
+
+        const result = withRetry(call, POLICY, (error, delayMs, attempt) => retries.push(`${error.kind} ${attempt}`));
+        await vi.runAllTimersAsync();
+
+        expect(await result).toBe("image");
+        expect(retries).toEqual(["server 1", "rate_limit 2"]);
+
+        const rejected = vi.fn().mockRejectedValue(httpError(403, { detail: "Forbidden" }));
+        await expect(withRetry(rejected, POLICY)).rejects.toMatchObject({ kind: 'auth' });
+        expect(rejected).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,144 @@
+import axios from "axios";
+
+// Typed failures for image API calls. Providers let their HTTP errors through; the queue turns
+// them (and jobs a provider reports as failed) into an ImageApiError, retries the transient
+// kinds with jittered backoff and hands the rest to the UI with a readable message.
+
+export type ImageErrorKind = 'auth' | 'rate_limit' | 'validation' | 'content_policy' | 'timeout' | 'network' | 'server' | 'unknown';
+
+const RETRYABLE: ImageErrorKind[] = ['rate_limit', 'timeout', 'network', 'server'];
+
+const USER_MESSAGES: Record<ImageErrorKind, string> = {
+    auth: "Image API authentication failed - check the API key in the stage settings",
+    rate_limit: "The image API is rate limiting requests - try again in a moment",
+    validation: "The image API rejected the request",
+    content_policy: "The image was blocked by the provider's content policy - try rewording the scene",
+    timeout: "The image API took too long to answer",
+    network: "Could not reach the image API - check your connection",
+    server: "The image API had an internal error - try again later",
+    unknown: "Image generation failed"
+};
+
+// Rejections worded like a safety filter rather than a malformed request
+const POLICY_PATTERN = /nsfw|content.?polic|safety|moderat|inappropriate|not allowed|prohibited|blocked/i;
+
+export class ImageApiError extends Error {
+    constructor(readonly kind: ImageErrorKind, message: string, readonly status?: number, readonly retryAfterMs?: number) {
+        super(message);
+        this.name = "ImageApiError";
+    }
+
+    get retryable(): boolean {
+        return RETRYABLE.includes(this.kind);
+    }
+
+    // For the UI; `message` keeps the API's own wording for the logs
+    get userMessage(): string {
+        return this.kind === 'validation' ? `${USER_MESSAGES.validation}: ${this.message}` : USER_MESSAGES[this.kind];
+    }
+}
+
+export function toImageApiError(error: unknown): ImageApiError {
+    if (error instanceof ImageApiError) {
+        return error;
+    }
+    if (!axios.isAxiosError(error)) {
+        return failureError(error instanceof Error ? error.message : String(error));
+    }
+
+    if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+        return new ImageApiError('timeout', error.message);
+    }
+    const response = error.response;
+    if (!response) {
+        return new ImageApiError('network', error.message);
+    }
+
+    const { status } = response;
+    const detail = responseDetail(response.data) || error.message;
+    if (status === 401 || status === 403) {
+        return new ImageApiError('auth', detail, status);
+    }
+    if (status === 429) {
+        return new ImageApiError('rate_limit', detail, status, retryAfter(response.headers?.['retry-after']));
+    }
+    if (status === 400 || status === 422) {
+        return new ImageApiError(POLICY_PATTERN.test(detail) ? 'content_policy' : 'validation', detail, status);
+    }
+    if (status === 408) {
+        return new ImageApiError('timeout', detail, status);
+    }
+    if (status >= 500) {
+        return new ImageApiError('server', detail, status);
+    }
+    return new ImageApiError('unknown', detail, status);
+}
+
+// For a job the provider reported as failed, where all we have is its message
+export function failureError(message: string = "Generation failed"): ImageApiError {
+    return new ImageApiError(POLICY_PATTERN.test(message) ? 'content_policy' : 'unknown', message);
+}
+
+export interface RetryPolicy {
+    // Retries after the first attempt
+    retries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+}
+
+// Exponential backoff with jitter, so stages that failed together do not retry together.
+// A server-given Retry-After wins over the computed delay
+export function retryDelay(attempt: number, policy: RetryPolicy, error?: ImageApiError): number {
+    if (error?.retryAfterMs !== undefined) {
+        return Math.min(policy.maxDelayMs, error.retryAfterMs);
+    }
+    const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+    return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+}
+
+// Runs `call`, retrying transient failures; anything else, or the last failure, is thrown as an ImageApiError
+export async function withRetry<T>(call: () => Promise<T>, policy: RetryPolicy,
+                                   onRetry: (error: ImageApiError, delayMs: number, attempt: number) => void = () => {}): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await call();
+        } catch (caught) {
+            const error = toImageApiError(caught);
+            if (!error.retryable || attempt >= policy.retries) {
+                throw error;
+            }
+            const delayMs = retryDelay(attempt, policy, error);
+            onRetry(error, delayMs, attempt + 1);
+            await new Promise(resolve => setTimeout(resolve, delayMs));
+        }
+    }
+}
+
+// FastAPI-style bodies: {detail: "..."} or {detail: [{loc, msg}]}, or a plain {error}/{message}
+function responseDetail(data: unknown): string | undefined {
+    const body = (data || {}) as { detail?: unknown, error?: unknown, message?: unknown };
+    const detail = body.detail ?? body.error ?? body.message;
+    if (typeof detail === 'string') {
+        return detail;
+    }
+    if (Array.isArray(detail)) {
+        return (detail as { loc?: unknown[], msg?: string }[])
+            .map(item => item?.loc ? `${item.loc.filter(part => part !== 'body').join('.')}: ${item.msg}` : item?.msg)
+            .filter(Boolean).join('; ') || undefined;
+    }
+    const nested = (detail as { message?: unknown } | undefined)?.message;
+    return typeof nested === 'string' ? nested : undefined;
+}
+
+// Retry-After is seconds or an HTTP date
+function retryAfter(header: unknown): number | undefined {
+    if (typeof header !== 'string' && typeof header !== 'number') {
+        return undefined;
+    }
+    const seconds = Number(header);
+    if (!Number.isNaN(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(String(header));
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,55 @@
+// Image provider abstraction - every image backend the composer can talk to implements this
+
+export type ImageProviderId = 'chub' | 'poe-flux';
+
+// Provider-neutral description of a single image generation
+export interface ImageGenerationRequest {
+    prompt: string;
+    // Backends without negative prompt support ignore it
+    negativePrompt?: string;
+    width: number;
+    height: number;
+    steps: number;
+    guidanceScale: number;
+    seed: number;
+    referenceUrl?: string;
+    strength?: number;
+}
+
+export type ImageJobStatus = 'pending' | 'done' | 'failed';
+
+// Snapshot of a job as reported by submit() or poll()
+export interface ImageJobUpdate {
+    jobId: string;
+    status: ImageJobStatus;
+    imageUrl?: string;
+    error?: string;
+}
+
+export interface ImageProviderCapabilities {
+    // Accepts a reference image (referenceUrl/strength)
+    img2img: boolean;
+    // The backend itself can abort a running job; otherwise cancel() only stops local tracking
+    cancel: boolean;
+    // Jobs may come back 'pending' from submit() and need poll() until done
+    polling: boolean;
+    maxWidth: number;
+    maxHeight: number;
+    negativePrompt: boolean;
+    seed: boolean;
+    // Accepted ranges; undefined when the backend picks these itself
+    steps?: { min: number, max: number };
+    guidanceScale?: { min: number, max: number };
+}
+
+// submit() and poll() may throw their HTTP errors as they are; the queue classifies them (see ImageApiError)
+export interface ImageProvider {
+    readonly id: ImageProviderId;
+    readonly label: string;
+    capabilities(): ImageProviderCapabilities;
+    isConfigured(): boolean;
+    // Aborting the signal abandons the request itself, before the provider has reported a job id
+    submit(request: ImageGenerationRequest, signal?: AbortSignal): Promise<ImageJobUpdate>;
+    poll(jobId: string): Promise<ImageJobUpdate>;
+    cancel(jobId: string): Promise<void>;
+}
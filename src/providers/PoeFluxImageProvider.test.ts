@@ -0,0 +1,55 @@
+import {afterEach, describe, expect, it, vi} from "vitest";
+import axios, {AxiosRequestConfig, CanceledError} from "axios";
+import {extractImageUrl, PoeFluxImageProvider} from "./PoeFluxImageProvider";
+
+const REQUEST = { prompt: "a library at night", width: 1216, height: 832, steps: 30, guidanceScale: 3.5, seed: 0 };
+
+function reply(content: string) {
+    return { data: { choices: [{ message: { content } }] } };
+}
+
+describe("extractImageUrl", () => {
+    it("reads markdown images and bare links", () => {
+        expect(extractImageUrl("Here you go: ![image](https://poe.example/a.png)")).toBe("https://poe.example/a.png");
+        expect(extractImageUrl("Done https://poe.example/b.webp?size=large enjoy")).toBe("https://poe.example/b.webp?size=large");
+        expect(extractImageUrl("I can't draw that.")).toBeUndefined();
+    });
+});
+
+describe("PoeFluxImageProvider", () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("asks for the request's aspect ratio and returns the image", async () => {
+        const post = vi.spyOn(axios, 'post').mockResolvedValue(reply("![image](https://poe.example/a.png)"));
+        const provider = new PoeFluxImageProvider("key");
+
+        const update = await provider.submit(REQUEST);
+
+        expect(update).toMatchObject({ status: 'done', imageUrl: "https://poe.example/a.png" });
+        expect((post.mock.calls[0][1] as { messages: { content: string }[] }).messages[0].content).toBe("a library at night --aspect 19:13");
+        expect(await provider.poll(update.jobId)).toMatchObject({ status: 'failed', error: "Unknown job" });
+    });
+
+    it("fails replies without an image", async () => {
+        vi.spyOn(axios, 'post').mockResolvedValue(reply("I can't draw that."));
+
+        expect(await new PoeFluxImageProvider("key").submit(REQUEST))
+            .toMatchObject({ status: 'failed', error: "No image in Poe response: I can't draw that." });
+    });
+
+    it("cancels through the caller's signal", async () => {
+        vi.spyOn(axios, 'post').mockImplementation((_url: string, _data?: unknown, config?: AxiosRequestConfig) =>
+            new Promise((_, reject) => {
+                (config?.signal as AbortSignal).addEventListener('abort', () => reject(new CanceledError()));
+            }));
+        const provider = new PoeFluxImageProvider("key");
+        const controller = new AbortController();
+
+        const submitted = provider.submit(REQUEST, controller.signal);
+        controller.abort();
+
+        expect(await submitted).toMatchObject({ status: 'failed', error: "Cancelled" });
+    });
+});
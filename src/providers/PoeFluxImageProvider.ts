@@ -0,0 +1,108 @@
+import axios from "axios";
+import {ImageGenerationRequest, ImageJobUpdate, ImageProvider, ImageProviderCapabilities} from "./ImageProvider";
+import {generateUUID} from "../util";
+
+export const POE_API_BASE_URL = "https://api.poe.com/v1";
+export const DEFAULT_POE_FLUX_MODEL = "FLUX-pro-1.1";
+
+// Poe FLUX bots via Poe's OpenAI-compatible chat completions API.
+// The bot answers synchronously with the image embedded in its reply, so jobs never need polling.
+export class PoeFluxImageProvider implements ImageProvider {
+    readonly id = 'poe-flux' as const;
+    readonly label = "Poe FLUX";
+
+    private inFlight = new Map<string, AbortController>();
+
+    constructor(private apiKey: string,
+                private model: string = DEFAULT_POE_FLUX_MODEL,
+                private baseUrl: string = POE_API_BASE_URL) {
+    }
+
+    capabilities(): ImageProviderCapabilities {
+        return {
+            img2img: false,
+            cancel: true,
+            polling: false,
+            maxWidth: 1440,
+            maxHeight: 1440,
+            // The bot only takes a prompt and --aspect
+            negativePrompt: false,
+            seed: false
+        };
+    }
+
+    isConfigured(): boolean {
+        return !!this.apiKey;
+    }
+
+    async submit(request: ImageGenerationRequest, signal?: AbortSignal): Promise<ImageJobUpdate> {
+        const jobId = generateUUID();
+        const controller = new AbortController();
+        this.inFlight.set(jobId, controller);
+        // The caller only learns the job id once the image is back, so it cancels through its signal
+        if (signal?.aborted) {
+            controller.abort();
+        }
+        signal?.addEventListener('abort', () => controller.abort());
+
+        const message = `${request.prompt} --aspect ${aspectRatio(request.width, request.height)}`;
+
+        try {
+            console.log('Sending Poe FLUX request:', { model: this.model, message });
+
+            const response = await axios.post(`${this.baseUrl}/chat/completions`, {
+                model: this.model,
+                messages: [{ role: "user", content: message }],
+                stream: false
+            }, {
+                headers: {
+                    'Authorization': `Bearer ${this.apiKey}`,
+                    'Content-Type': 'application/json'
+                },
+                timeout: 120000,
+                signal: controller.signal
+            });
+
+            const content: string = response.data?.choices?.[0]?.message?.content || "";
+            const imageUrl = extractImageUrl(content);
+            return imageUrl ?
+                { jobId, status: 'done', imageUrl } :
+                { jobId, status: 'failed', error: content ? `No image in Poe response: ${content.slice(0, 200)}` : "Empty Poe response" };
+        } catch (error) {
+            if (axios.isCancel(error)) {
+                return { jobId, status: 'failed', error: "Cancelled" };
+            }
+            throw error;
+        } finally {
+            this.inFlight.delete(jobId);
+        }
+    }
+
+    async poll(jobId: string): Promise<ImageJobUpdate> {
+        if (this.inFlight.has(jobId)) {
+            return { jobId, status: 'pending' };
+        }
+        // submit already returned the outcome of finished jobs; nothing is kept after that
+        return { jobId, status: 'failed', error: "Unknown job" };
+    }
+
+    async cancel(jobId: string): Promise<void> {
+        this.inFlight.get(jobId)?.abort();
+    }
+}
+
+// Poe image bots reply with markdown, e.g. "![image](https://...)" or a bare link
+export function extractImageUrl(content: string): string | undefined {
+    const markdownMatch = content.match(/!\[[^\]]*\]\((https?:\/\/[^\s)]+)\)/);
+    if (markdownMatch) {
+        return markdownMatch[1];
+    }
+    const urlMatch = content.match(/https?:\/\/\S+\.(?:png|jpe?g|webp|gif)(?:\?\S*)?/i) || content.match(/https?:\/\/[^\s)]+/);
+    return urlMatch ? urlMatch[0] : undefined;
+}
+
+function aspectRatio(width: number, height: number): string {
+    const gcd = (a: number, b: number): number => b === 0 ? a : gcd(b, a % b);
+    const divisor = gcd(width, height) || 1;
+    return `${width / divisor}:${height / divisor}`;
+}
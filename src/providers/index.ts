@@ -0,0 +1,27 @@
+import {ImageProvider, ImageProviderId} from "./ImageProvider";
+import {CHUB_API_BASE_URL, ChubImageProvider} from "./ChubImageProvider";
+import {PoeFluxImageProvider} from "./PoeFluxImageProvider";
+
+export * from "./ImageProvider";
+export * from "./GenerationSettings";
+export * from "./ImageApiError";
+export {ChubImageProvider, CHUB_API_BASE_URL} from "./ChubImageProvider";
+export {PoeFluxImageProvider, DEFAULT_POE_FLUX_MODEL, POE_API_BASE_URL} from "./PoeFluxImageProvider";
+
+export interface ImageProviderOptions {
+    chubApiKey: string;
+    poeApiKey: string;
+    // Overrides the Chub API host, e.g. the local mock at /mock-api
+    baseUrl?: string;
+}
+
+// Picks the backend named by the image_api_provider config setting
+export function createImageProvider(providerId: ImageProviderId, options: ImageProviderOptions): ImageProvider {
+    switch (providerId) {
+        case 'poe-flux':
+            return new PoeFluxImageProvider(options.poeApiKey);
+        case 'chub':
+        default:
+            return new ChubImageProvider(options.chubApiKey, options.baseUrl || CHUB_API_BASE_URL);
+    }
+}
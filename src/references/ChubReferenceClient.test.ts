@@ -0,0 +1,98 @@
+import {afterAll, beforeAll, beforeEach, describe, expect, it, vi} from "vitest";
+import {RunningMockServer, startMockImageServer} from "../../mock/mockImageApi";
+import {ChubReferenceClient} from "./ChubReferenceClient";
+
+describe("ChubReferenceClient", () => {
+    let server: RunningMockServer;
+
+    beforeAll(async () => {
+        server = await startMockImageServer();
+    });
+
+    afterAll(async () => {
+        await server.close();
+    });
+
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        server.api.reset();
+        server.api.setProjects([
+            { id: 101, name: "Janessa", fullPath: "characters/someone/janessa-abc", galleryImages: 30 },
+            { id: 102, name: "Janessa Lookalike", fullPath: "characters/other/lookalike", galleryImages: 2 },
+            { id: "broken-id", name: "Broken", fullPath: "characters/someone/broken", galleryImages: 3 }
+        ]);
+    });
+
+    function galleryRequests() {
+        return server.api.requests.filter(request => request.path.startsWith("/api/gallery/project/"));
+    }
+
+    it("resolves a character's project and pages through its gallery", async () => {
+        const client = new ChubReferenceClient("key", server.url);
+
+        const reference = await client.fetchReference({ name: "Janessa", project: "characters/someone/janessa-abc" });
+
+        expect(reference).toMatchObject({ characterId: "101", name: "Janessa" });
+        expect(reference?.avatarUrl).toMatch(/avatar-101\.svg$/);
+        expect(reference?.galleryImages).toHaveLength(30);
+        expect(galleryRequests()).toHaveLength(2);
+    });
+
+    it("stops after the configured number of gallery pages", async () => {
+        const client = new ChubReferenceClient("key", server.url, 1);
+
+        const reference = await client.fetchReference({ name: "Janessa", project: "101" });
+
+        expect(reference?.galleryImages).toHaveLength(24);
+        expect(galleryRequests()).toHaveLength(1);
+    });
+
+    it("resolves an explicit full path or numeric project id", async () => {
+        const client = new ChubReferenceClient("key", server.url);
+
+        const byPath = await client.fetchReference({ name: "Susan", project: "someone/janessa-abc" });
+        const byId = await client.fetchReference({ name: "Lookalike", project: "102" });
+
+        expect(byPath?.characterId).toBe("101");
+        expect(byId?.galleryImages).toHaveLength(2);
+        expect(byId?.avatarUrl).toBe(byId?.galleryImages[0]);
+    });
+
+    it("does not look up a character without a known project", async () => {
+        const client = new ChubReferenceClient("key", server.url);
+
+        // A public card with the same name belongs to someone else
+        expect(await client.fetchReference({ name: "Janessa" })).toBeNull();
+        expect(server.api.requests).toHaveLength(0);
+    });
+
+    it("treats a 422 from the gallery as an empty gallery", async () => {
+        const client = new ChubReferenceClient("key", server.url);
+
+        const reference = await client.fetchReference({ name: "Broken", project: "someone/broken" });
+
+        expect(reference?.galleryImages).toEqual([]);
+        expect(reference?.avatarUrl).toMatch(/avatar-broken-id\.svg$/);
+    });
+
+    it("caches results per character for the session", async () => {
+        const client = new ChubReferenceClient("key", server.url);
+
+        await client.fetchReference({ name: "Janessa", project: "someone/janessa-abc" });
+        const requestCount = server.api.requests.length;
+        await client.fetchReference({ name: "janessa", project: "someone/janessa-abc" });
+        await client.fetchReference({ name: "Lookalike", project: "other/lookalike" });
+        await client.fetchReference({ name: "Lookalike", project: "other/lookalike" });
+
+        // The project and one gallery page, once
+        expect(server.api.requests.length).toBe(requestCount + 2);
+    });
+
+    it("does not cache network failures", async () => {
+        const client = new ChubReferenceClient("key", "http://127.0.0.1:1");
+
+        expect(await client.fetchReference({ name: "Janessa", project: "someone/janessa-abc" })).toBeNull();
+        expect(client['cache'].size).toBe(0);
+    });
+});
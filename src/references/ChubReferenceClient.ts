@@ -0,0 +1,148 @@
+import axios from "axios";
+import {CHUB_API_BASE_URL} from "../providers";
+
+// Character reference lookup against Chub: resolves a chat character to its Chub project,
+// then collects the avatar and gallery images used for img2img. Results are cached per
+// character for the lifetime of the stage. Only a known project is looked up: a search by
+// name would happily return a stranger's public card of the same name.
+
+export interface CharacterReference {
+    characterId: string;
+    name: string;
+    avatarUrl: string;
+    galleryImages: string[];
+    description: string;
+}
+
+export interface ReferenceLookup {
+    name: string;
+    // Numeric project id or full path ("characters/creator/slug"), when known
+    project?: string;
+}
+
+interface ChubProjectNode {
+    id: number | string;
+    name: string;
+    fullPath?: string;
+    avatar_url?: string;
+    max_res_url?: string;
+    description?: string;
+    tagline?: string;
+    hasGallery?: boolean;
+}
+
+interface ChubGalleryNode {
+    primary_image_path?: string;
+}
+
+export const GALLERY_PAGE_SIZE = 24;
+
+export class ChubReferenceClient {
+    private cache = new Map<string, Promise<CharacterReference | null>>();
+
+    constructor(private apiKey: string,
+                private baseUrl: string = CHUB_API_BASE_URL,
+                private maxGalleryPages: number = 3) {
+    }
+
+    fetchReference(lookup: ReferenceLookup): Promise<CharacterReference | null> {
+        const key = lookup.name.toLowerCase();
+        let cached = this.cache.get(key);
+        if (!cached) {
+            cached = this.loadReference(lookup).catch(error => {
+                // Network/server errors are not cached, so the next capture tries again
+                console.warn(`Character reference lookup failed for ${lookup.name}:`, describeError(error));
+                this.cache.delete(key);
+                return null;
+            });
+            this.cache.set(key, cached);
+        }
+        return cached;
+    }
+
+    private async loadReference(lookup: ReferenceLookup): Promise<CharacterReference | null> {
+        const project = await this.resolveProject(lookup);
+        if (!project) {
+            console.log(`No Chub project found for character: ${lookup.name}`);
+            return null;
+        }
+
+        const galleryImages = project.hasGallery === false ? [] : await this.fetchGallery(project.id);
+        const avatarUrl = project.max_res_url || project.avatar_url || galleryImages[0] || "";
+
+        return {
+            characterId: String(project.id),
+            name: lookup.name,
+            avatarUrl,
+            galleryImages,
+            description: project.description || project.tagline || ""
+        };
+    }
+
+    private async resolveProject(lookup: ReferenceLookup): Promise<ChubProjectNode | null> {
+        const project = lookup.project?.trim();
+        if (!project) {
+            return null;
+        }
+
+        if (/^\d+$/.test(project)) {
+            // Gallery lookups only need the id; the avatar falls back to the first gallery image
+            return { id: Number(project), name: lookup.name };
+        }
+
+        const path = project.startsWith("characters/") ? project : `characters/${project}`;
+        const response = await this.get<{ node?: ChubProjectNode }>(`/api/${path}`, { full: false });
+        return response?.node || null;
+    }
+
+    private async fetchGallery(projectId: number | string): Promise<string[]> {
+        const images: string[] = [];
+
+        for (let page = 1; page <= this.maxGalleryPages; page++) {
+            const response = await this.get<{ nodes?: ChubGalleryNode[], count?: number }>(`/api/gallery/project/${projectId}`, {
+                nsfw: true,
+                page,
+                limit: GALLERY_PAGE_SIZE
+            });
+            const nodes = response?.nodes || [];
+
+            for (const node of nodes) {
+                if (node.primary_image_path && !images.includes(node.primary_image_path)) {
+                    images.push(node.primary_image_path);
+                }
+            }
+
+            const total = response?.count;
+            if (nodes.length < GALLERY_PAGE_SIZE || (total !== undefined && images.length >= total)) {
+                break;
+            }
+        }
+
+        return images;
+    }
+
+    // GET with query params; a 422 (malformed id/path) is logged and treated as "nothing found"
+    private async get<T>(path: string, params: Record<string, string | number | boolean>): Promise<T | null> {
+        try {
+            const response = await axios.get(`${this.baseUrl}${path}`, {
+                params,
+                headers: this.apiKey ? { 'CH-API-KEY': this.apiKey } : {},
+                timeout: 15000
+            });
+            return response.data;
+        } catch (error) {
+            if (axios.isAxiosError(error) && error.response?.status === 422) {
+                console.warn(`Chub rejected ${path} (422):`, error.response.data?.detail);
+                return null;
+            }
+            throw error;
+        }
+    }
+}
+
+function describeError(error: unknown): string {
+    if (axios.isAxiosError(error)) {
+        return `${error.response?.status || 'network'} ${error.message}`;
+    }
+    return String(error);
+}
@@ -0,0 +1,73 @@
+import {describe, expect, it} from "vitest";
+import {AutoCapturePolicy, AutoCaptureSettings} from "./AutoCapturePolicy";
+import {SceneContext} from "./SceneTracker";
+
+const LIBRARY: SceneContext = { characters: ["Janessa", "Susan"], location: "library", actions: "studying", mood: "calm", timeOfDay: "evening" };
+
+function policy(settings: Partial<AutoCaptureSettings> = {}) {
+    return new AutoCapturePolicy({ everyMessages: 0, onSceneChange: false, cooldownMs: 0, budget: 10, ...settings });
+}
+
+describe("AutoCapturePolicy", () => {
+    it("is off by default", () => {
+        const off = policy();
+
+        expect(off.enabled).toBe(false);
+        expect(off.evaluate(LIBRARY, 0)).toBeNull();
+        expect(off.evaluate({ ...LIBRARY, location: "cafe" }, 1)).toBeNull();
+    });
+
+    it("fires every N bot messages", () => {
+        const every = policy({ everyMessages: 2 });
+
+        expect(every.evaluate(LIBRARY, 0)).toBeNull();
+        expect(every.evaluate(LIBRARY, 1)).toBe('interval');
+        every.recordCapture(1, true, LIBRARY);
+        expect(every.evaluate(LIBRARY, 2)).toBeNull();
+        expect(every.evaluate(LIBRARY, 3)).toBe('interval');
+    });
+
+    it("fires on location, time of day or cast changes only", () => {
+        const changes = policy({ onSceneChange: true });
+
+        expect(changes.evaluate(LIBRARY, 0)).toBeNull();
+        expect(changes.evaluate({ ...LIBRARY, characters: ["susan", "janessa"] }, 1)).toBeNull();
+        expect(changes.evaluate({ ...LIBRARY, mood: "tense", actions: "arguing" }, 1)).toBeNull();
+        expect(changes.evaluate({ ...LIBRARY, location: "cafe" }, 2)).toBe('scene_change');
+        expect(changes.evaluate({ ...LIBRARY, location: "cafe", timeOfDay: "night" }, 3)).toBe('scene_change');
+        expect(changes.evaluate({ ...LIBRARY, location: "cafe", timeOfDay: "night", characters: ["Susan"] }, 4)).toBe('scene_change');
+    });
+
+    it("waits out the cooldown after any capture", () => {
+        const cooled = policy({ everyMessages: 1, cooldownMs: 1000 });
+
+        cooled.recordCapture(0, false, LIBRARY);
+
+        expect(cooled.evaluate(LIBRARY, 500)).toBeNull();
+        expect(cooled.evaluate(LIBRARY, 1000)).toBe('interval');
+    });
+
+    it("still fires for a scene change that landed during the cooldown", () => {
+        const cooled = policy({ onSceneChange: true, cooldownMs: 1000 });
+        const cafe = { ...LIBRARY, location: "cafe" };
+
+        cooled.recordCapture(0, false, LIBRARY);
+
+        expect(cooled.evaluate(cafe, 500)).toBeNull();
+        expect(cooled.evaluate(cafe, 1000)).toBe('scene_change');
+        cooled.recordCapture(1000, true, cafe);
+        expect(cooled.evaluate(cafe, 2500)).toBeNull();
+    });
+
+    it("stops once the budget is spent, ignoring manual captures", () => {
+        const limited = policy({ everyMessages: 1, budget: 1 });
+
+        limited.recordCapture(0, false, LIBRARY);
+        expect(limited.remaining).toBe(1);
+        expect(limited.evaluate(LIBRARY, 1)).toBe('interval');
+        limited.recordCapture(1, true, LIBRARY);
+
+        expect(limited.remaining).toBe(0);
+        expect(limited.evaluate(LIBRARY, 2)).toBeNull();
+    });
+});
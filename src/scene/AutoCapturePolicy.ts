@@ -0,0 +1,72 @@
+import {diffScenes, SceneChange, SceneContext} from "./SceneTracker";
+
+// Decides when afterResponse should capture a scene without a button click:
+// every N bot messages, or when the scene moves (location, time of day or cast changes).
+// A cooldown and a per-session budget keep automatic captures from running away.
+
+export interface AutoCaptureSettings {
+    // Capture every N bot messages; 0 turns the interval trigger off
+    everyMessages: number;
+    onSceneChange: boolean;
+    cooldownMs: number;
+    // Automatic captures allowed per session
+    budget: number;
+}
+
+// Mood and action shifts alone are too noisy to pay for a new image
+const TRIGGER_FIELDS: SceneChange['field'][] = ['location', 'timeOfDay', 'characters'];
+
+export type AutoCaptureReason = 'interval' | 'scene_change';
+
+export class AutoCapturePolicy {
+    private messagesSinceCapture = 0;
+    private lastCaptureAt?: number;
+    private used = 0;
+    // The scene at the last capture; changes are measured against it, so one that lands
+    // during the cooldown still fires once the cooldown is over
+    private baseline?: SceneContext;
+
+    constructor(private settings: AutoCaptureSettings) {
+    }
+
+    get enabled(): boolean {
+        return this.settings.everyMessages > 0 || this.settings.onSceneChange;
+    }
+
+    get remaining(): number {
+        return Math.max(0, this.settings.budget - this.used);
+    }
+
+    // Called once per bot message with the freshly parsed scene
+    evaluate(scene: SceneContext, now: number): AutoCaptureReason | null {
+        this.messagesSinceCapture++;
+        if (this.baseline === undefined) {
+            this.baseline = scene;
+        }
+        const changed = diffScenes(this.baseline, scene).some(change => TRIGGER_FIELDS.includes(change.field));
+
+        if (!this.enabled || this.remaining === 0) {
+            return null;
+        }
+        if (this.lastCaptureAt !== undefined && now - this.lastCaptureAt < this.settings.cooldownMs) {
+            return null;
+        }
+        if (this.settings.onSceneChange && changed) {
+            return 'scene_change';
+        }
+        if (this.settings.everyMessages > 0 && this.messagesSinceCapture >= this.settings.everyMessages) {
+            return 'interval';
+        }
+        return null;
+    }
+
+    // Manual captures restart the interval and cooldown but do not spend the budget
+    recordCapture(now: number, automatic: boolean, scene: SceneContext) {
+        this.messagesSinceCapture = 0;
+        this.lastCaptureAt = now;
+        this.baseline = scene;
+        if (automatic) {
+            this.used++;
+        }
+    }
+}
@@ -0,0 +1,93 @@
+import {describe, expect, it} from "vitest";
+import {CharacterDetector, DetectableMessage} from "./CharacterDetector";
+
+function bot(content: string, speakerId?: string): DetectableMessage {
+    return { content, isUser: false, speakerId };
+}
+
+function user(content: string): DetectableMessage {
+    return { content, isUser: true, speakerId: "0" };
+}
+
+describe("CharacterDetector", () => {
+    it("finds known names in original-case text", () => {
+        const detector = new CharacterDetector([{ name: "Janessa" }, { name: "Susan Park" }]);
+
+        const characters = detector.detect([bot("Janessa poured the coffee while Susan watched.")], 3);
+
+        expect(characters).toHaveLength(2);
+        expect(characters).toEqual(expect.arrayContaining(["Janessa", "Susan Park"]));
+    });
+
+    it("discovers unknown names from speech and action patterns", () => {
+        const detector = new CharacterDetector();
+
+        const characters = detector.detect([
+            bot("Marcus said nothing. \"Fine,\" Elena replied, and Professor Reed frowned at them both.")
+        ], 5);
+
+        expect(characters).toHaveLength(3);
+        expect(characters).toEqual(expect.arrayContaining(["Marcus", "Elena", "Professor Reed"]));
+        expect(characters).not.toContain("Fine");
+    });
+
+    it("ignores capitalized sentence starters", () => {
+        const detector = new CharacterDetector();
+
+        const characters = detector.detect([bot("Suddenly the lights went out. She looked around. Then nothing.")], 3);
+
+        expect(characters).toEqual([]);
+    });
+
+    it("does not treat lowercase words as known names", () => {
+        const detector = new CharacterDetector([{ name: "Will" }]);
+
+        expect(detector.detect([bot("I will be there soon.")], 3)).toEqual([]);
+        expect(detector.detect([bot("Will waved from the door.")], 3)).toEqual(["Will"]);
+    });
+
+    it("skips placeholder persona names", () => {
+        const detector = new CharacterDetector([{ name: "You", speakerId: "0" }, { name: "Janessa", speakerId: "1" }]);
+
+        const characters = detector.detect([user("You sit down."), bot("Hello!", "1")], 3);
+
+        expect(characters).toEqual(["Janessa"]);
+    });
+
+    it("credits the author of a message", () => {
+        const detector = new CharacterDetector([{ name: "Janessa", speakerId: "1" }]);
+
+        expect(detector.detect([bot("*smiles warmly* How are you?", "1")], 3)).toEqual(["Janessa"]);
+    });
+
+    it("resolves pronouns to the most recent named speaker", () => {
+        const detector = new CharacterDetector([{ name: "Janessa" }, { name: "Susan" }]);
+
+        const ranked = detector.rank([
+            bot("Susan mentioned Janessa once. Janessa said hello. She smiled. She laughed. She sat down.")
+        ]);
+
+        expect(ranked[0].name).toBe("Janessa");
+        expect(ranked[0].score).toBeGreaterThan(ranked[1].score);
+    });
+
+    it("ranks by salience before applying the limit", () => {
+        const detector = new CharacterDetector([{ name: "Janessa" }, { name: "Susan" }, { name: "Tom" }]);
+
+        const characters = detector.detect([
+            bot("Tom waved."),
+            bot("Susan said hi. Janessa nodded."),
+            bot("Susan laughed. Susan said she would stay.")
+        ], 2);
+
+        expect(characters).toEqual(["Susan", "Janessa"]);
+    });
+
+    it("weights recent messages above older ones", () => {
+        const detector = new CharacterDetector([{ name: "Janessa" }, { name: "Susan" }]);
+
+        const characters = detector.detect([bot("Susan waved."), bot("Janessa waved.")], 1);
+
+        expect(characters).toEqual(["Janessa"]);
+    });
+});
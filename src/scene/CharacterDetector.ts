@@ -0,0 +1,246 @@
+// Character detection over the original-case conversation text.
+// Seeded with the chat's known names, it also discovers unknown named speakers, resolves
+// pronouns to the most recent named speaker and ranks everyone by salience.
+
+export interface KnownCharacter {
+    // Canonical name used in prompts
+    name: string;
+    // Anonymized speaker id of the character or user, if any
+    speakerId?: string;
+    // Extra spellings that refer to the same character (first names, nicknames)
+    aliases?: string[];
+}
+
+export interface DetectableMessage {
+    content: string;
+    isUser: boolean;
+    speakerId?: string;
+}
+
+// Capitalized words that start sentences or address people but are never names
+const NON_NAMES = new Set([
+    'a', 'an', 'the', 'i', 'you', 'your', 'yours', 'we', 'us', 'our', 'he', 'him', 'his', 'she', 'her', 'hers',
+    'they', 'them', 'their', 'it', 'its', 'my', 'me', 'mine', 'this', 'that', 'these', 'those', 'there', 'here',
+    'when', 'then', 'what', 'why', 'how', 'where', 'who', 'which', 'while', 'yes', 'no', 'not', 'oh', 'ah', 'um',
+    'well', 'but', 'and', 'or', 'so', 'if', 'as', 'after', 'before', 'maybe', 'just', 'still', 'now', 'hey', 'hi',
+    'hello', 'okay', 'ok', 'please', 'thanks', 'sorry', 'later', 'suddenly', 'finally', 'meanwhile', 'everyone',
+    'someone', 'somebody', 'nobody', 'something', 'nothing', 'with', 'without', 'for', 'in', 'on', 'at', 'by',
+    'from', 'to', 'of', 'even', 'also', 'again', 'once', 'let', 'come', 'good', 'great', 'sure', 'right', 'today',
+    'tomorrow', 'yesterday', 'tonight', 'all', 'both', 'each', 'every', 'some', 'any', 'one', 'two', 'none',
+    'will', 'can', 'could', 'would', 'should', 'have', 'been', 'was', 'were', 'are', 'is', 'do', 'does', 'did',
+    'look', 'wait', 'stop', 'listen', 'thank', 'god', 'man', 'guys', 'user', 'narrator', 'char'
+]);
+
+// Known names that are placeholders rather than people
+const PLACEHOLDER_NAMES = new Set(['you', 'i', 'me', 'user', '{{user}}', 'narrator', 'char', '{{char}}', 'anonymous']);
+
+const SPEECH_VERBS = 'said|says|asked|asks|replied|replies|whispered|whispers|shouted|shouts|speaks|spoke|called|calls|answered|answers|muttered|mutters|laughed|laughs|sighed|sighs|murmured|murmurs|exclaimed|exclaims';
+const ACTION_VERBS = 'walked|walks|ran|runs|smiled|smiles|grinned|grins|frowned|frowns|looked|looks|turned|turns|sat|sits|stood|stands|moved|moves|approached|approaches|entered|enters|left|leaves|nodded|nods|leaned|leans|glanced|glances|reached|reaches|stepped|steps|paused|pauses|waved|waves|blushed|blushes|shrugged|shrugs|opened|opens|closed|closes|took|takes|held|holds|gave|gives';
+
+const NAME = "\\p{Lu}[\\p{Ll}'\\-]+";
+const TITLE = "(?:Professor|Prof\\.?|Dr\\.?|Doctor|Mr\\.?|Mrs\\.?|Ms\\.?|Miss|Sir|Lady|Lord|Dean|Judge|Officer|Detective|Captain|Coach)";
+
+// Patterns that show a capitalized word acting as a speaker or agent; group 1 is the name
+const SPEAKER_PATTERNS = [
+    new RegExp(`\\b(${NAME})\\s+(?:${SPEECH_VERBS}|${ACTION_VERBS})\\b`, 'gu'),
+    new RegExp(`(?:^|\\n)\\s*\\*?(${NAME}):\\s`, 'gu'),
+    new RegExp(`(?:^|\\n)\\s*\\*(${NAME})\\s+\\p{Ll}`, 'gu'),
+    new RegExp(`\\[(${NAME})\\]`, 'gu')
+];
+
+// "Professor Reed": the whole phrase is the name, and a bare "Reed" refers to the same person
+const TITLED_NAME_PATTERN = new RegExp(`(${TITLE}\\s+(${NAME}))`, 'gu');
+
+// Patterns that only establish that a capitalized word is a name
+const NAME_PATTERNS = [
+    ...SPEAKER_PATTERNS,
+    new RegExp(`\\b(${NAME})'s\\s+\\p{Ll}`, 'gu')
+];
+
+const PRONOUN_PATTERN = /\b(?:she|he|her|him|his|hers|herself|himself)\b/giu;
+
+// Salience weights
+const MENTION_SCORE = 1;
+const SPEAKER_SCORE = 2;
+const AUTHOR_SCORE = 1.5;
+const PRONOUN_SCORE = 0.5;
+
+interface ScoreEntry {
+    name: string;
+    score: number;
+    lastSeen: number;
+}
+
+interface TextEvent {
+    index: number;
+    kind: 'mention' | 'speaker' | 'pronoun';
+    name?: string;
+}
+
+export class CharacterDetector {
+    private known: KnownCharacter[] = [];
+
+    constructor(knownCharacters: KnownCharacter[] = []) {
+        this.setKnownCharacters(knownCharacters);
+    }
+
+    setKnownCharacters(knownCharacters: KnownCharacter[]) {
+        this.known = knownCharacters.filter(character => isUsableKnownName(character.name));
+    }
+
+    // Returns the characters present in the messages, most salient first
+    detect(messages: DetectableMessage[], maxCharacters: number): string[] {
+        return this.rank(messages).slice(0, maxCharacters).map(entry => entry.name);
+    }
+
+    rank(messages: DetectableMessage[]): ScoreEntry[] {
+        const aliases = this.buildAliasTable(messages);
+        const scores = new Map<string, ScoreEntry>();
+        let lastSpeaker: string | undefined;
+        let lastMentioned: string | undefined;
+        let order = 0;
+
+        const credit = (name: string, points: number, weight: number) => {
+            const entry = scores.get(name) || { name, score: 0, lastSeen: 0 };
+            entry.score += points * weight;
+            entry.lastSeen = ++order;
+            scores.set(name, entry);
+        };
+
+        messages.forEach((message, index) => {
+            // Later messages count more: weights run from ~0.5 up to 1.5
+            const weight = 0.5 + (index + 1) / messages.length;
+
+            const author = this.findAuthor(message);
+            if (author) {
+                credit(author, AUTHOR_SCORE, weight);
+                lastSpeaker = author;
+            }
+
+            for (const event of this.scanEvents(message.content, aliases)) {
+                if (event.kind === 'pronoun') {
+                    const antecedent = lastSpeaker || lastMentioned;
+                    if (antecedent) {
+                        credit(antecedent, PRONOUN_SCORE, weight);
+                    }
+                } else if (event.name) {
+                    credit(event.name, event.kind === 'speaker' ? SPEAKER_SCORE : MENTION_SCORE, weight);
+                    lastMentioned = event.name;
+                    if (event.kind === 'speaker') {
+                        lastSpeaker = event.name;
+                    }
+                }
+            }
+        });
+
+        return [...scores.values()].sort((a, b) => b.score - a.score || b.lastSeen - a.lastSeen);
+    }
+
+    // Maps every lowercased spelling to its canonical name: known characters plus names discovered via speaker patterns
+    private buildAliasTable(messages: DetectableMessage[]): Map<string, string> {
+        const aliases = new Map<string, string>();
+
+        for (const character of this.known) {
+            const firstName = character.name.trim().split(/\s+/)[0];
+            for (const alias of [character.name, firstName, ...(character.aliases || [])]) {
+                if (isUsableKnownName(alias)) {
+                    aliases.set(alias.toLowerCase(), character.name);
+                }
+            }
+        }
+
+        for (const message of messages) {
+            for (const match of message.content.matchAll(TITLED_NAME_PATTERN)) {
+                const name = match[1].replace(/\s+/g, ' ');
+                if (!aliases.has(name.toLowerCase())) {
+                    aliases.set(name.toLowerCase(), name);
+                }
+                if (isUsableName(match[2]) && !aliases.has(match[2].toLowerCase())) {
+                    aliases.set(match[2].toLowerCase(), name);
+                }
+            }
+        }
+
+        for (const message of messages) {
+            for (const pattern of NAME_PATTERNS) {
+                for (const match of message.content.matchAll(pattern)) {
+                    const name = match[1].replace(/\s+/g, ' ');
+                    if (isUsableName(name) && !aliases.has(name.toLowerCase())) {
+                        aliases.set(name.toLowerCase(), name);
+                    }
+                }
+            }
+        }
+
+        return aliases;
+    }
+
+    private scanEvents(text: string, aliases: Map<string, string>): TextEvent[] {
+        const events: TextEvent[] = [];
+        const speakerSpans: Array<[number, number]> = [];
+
+        for (const pattern of SPEAKER_PATTERNS) {
+            for (const match of text.matchAll(pattern)) {
+                const canonical = aliases.get(match[1].toLowerCase());
+                if (canonical && match.index !== undefined) {
+                    const start = match.index + match[0].indexOf(match[1]);
+                    if (!speakerSpans.some(([from, to]) => start >= from && start < to)) {
+                        speakerSpans.push([start, start + match[1].length]);
+                        events.push({ index: start, kind: 'speaker', name: canonical });
+                    }
+                }
+            }
+        }
+
+        // Longest aliases first, so "Professor Reed" wins over "Reed"; \s+ in the text matches the single space in an alias
+        const sortedAliases = [...aliases.keys()].sort((a, b) => b.length - a.length);
+        const claimed: Array<[number, number]> = [...speakerSpans];
+        for (const alias of sortedAliases) {
+            const pattern = new RegExp(`(?<![\\p{L}])${escapeRegExp(alias).replace(/ /g, '\\s+')}(?![\\p{L}])`, 'giu');
+            for (const match of text.matchAll(pattern)) {
+                const start = match.index ?? 0;
+                const end = start + match[0].length;
+                // Names are capitalized; "will" or "rose" in running text is not a mention
+                if (!/^\p{Lu}/u.test(match[0]) || claimed.some(([from, to]) => start < to && end > from)) {
+                    continue;
+                }
+                claimed.push([start, end]);
+                events.push({ index: start, kind: 'mention', name: aliases.get(alias) });
+            }
+        }
+
+        for (const match of text.matchAll(PRONOUN_PATTERN)) {
+            events.push({ index: match.index ?? 0, kind: 'pronoun' });
+        }
+
+        return events.sort((a, b) => a.index - b.index);
+    }
+
+    private findAuthor(message: DetectableMessage): string | undefined {
+        if (!message.speakerId) {
+            return undefined;
+        }
+        return this.known.find(character => character.speakerId === message.speakerId)?.name;
+    }
+}
+
+// Persona names like "You" or "User" cannot be told apart from ordinary words
+function isUsableKnownName(name: string | undefined): name is string {
+    if (!name) {
+        return false;
+    }
+    const trimmed = name.trim();
+    return trimmed.length > 1 && !PLACEHOLDER_NAMES.has(trimmed.toLowerCase());
+}
+
+function isUsableName(name: string | undefined): name is string {
+    if (!name) {
+        return false;
+    }
+    const trimmed = name.trim();
+    return trimmed.length > 1 && trimmed.length < 40 && !NON_NAMES.has(trimmed.toLowerCase());
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,62 @@
+import {describe, expect, it} from "vitest";
+import {DEFAULT_CHARACTER, DEFAULT_USER} from "@chub-ai/stages-ts";
+import {CharacterRoster, describeAppearance, parseAppearance} from "./CharacterRoster";
+
+describe("parseAppearance", () => {
+    it("reads age, gender, hair, eyes, skin, build and clothing", () => {
+        const traits = parseAppearance(
+            "Susan is a 24-year-old law student. She has long wavy auburn hair, bright green eyes and pale skin. " +
+            "Slender and tall, she usually wears a grey blazer over a white blouse."
+        );
+
+        expect(traits).toEqual({
+            age: "24-year-old",
+            gender: "woman",
+            hair: "long wavy auburn hair",
+            eyes: "bright green eyes",
+            skin: "pale skin",
+            build: "slender, tall",
+            clothing: "a grey blazer over a white blouse"
+        });
+    });
+
+    it("uses hint text for gender when the description has none", () => {
+        expect(parseAppearance("Janessa is 37 years old.", "You're having a coffee with her at work.")).toEqual({
+            age: "37-year-old",
+            gender: "woman"
+        });
+    });
+
+    it("leaves unknown traits out of the descriptor", () => {
+        expect(describeAppearance(parseAppearance("A man with short black hair."))).toBe("man, short black hair");
+        expect(describeAppearance(parseAppearance("Cheerful and helpful."))).toBe("");
+    });
+});
+
+describe("CharacterRoster", () => {
+    const roster = CharacterRoster.fromInitialData({
+        "1": { ...DEFAULT_CHARACTER, name: "Janessa", description: "Janessa is 37 years old, and that's completely fine.", scenario: "You're having a coffee with her at work." },
+        "2": { ...DEFAULT_CHARACTER, name: "Old Friend", isRemoved: true },
+        "3": { ...DEFAULT_CHARACTER, name: "" },
+        "4": { ...DEFAULT_CHARACTER, name: "Marcus Hale", description: "Marcus has cropped black hair." }
+    }, {
+        "0": { ...DEFAULT_USER, name: "Alex", chatProfile: "A tall man who wears a leather jacket." }
+    });
+
+    it("keeps active, named characters and users", () => {
+        expect(roster.all().map(entry => entry.name)).toEqual(["Janessa", "Marcus Hale", "Alex"]);
+        expect(roster.find("alex")?.isUser).toBe(true);
+        expect(roster.bySpeakerId("4")?.name).toBe("Marcus Hale");
+    });
+
+    it("seeds the detector with speaker ids", () => {
+        expect(roster.knownCharacters()).toContainEqual({ name: "Janessa", speakerId: "1" });
+    });
+
+    it("finds characters by full or first name with their card appearance", () => {
+        expect(describeAppearance(roster.find("Janessa")!.appearance)).toBe("37-year-old woman");
+        expect(describeAppearance(roster.find("Marcus")!.appearance)).toBe("cropped black hair");
+        expect(describeAppearance(roster.find("Alex")!.appearance)).toBe("man, tall build, wearing a leather jacket");
+        expect(roster.find("Stranger")).toBeUndefined();
+    });
+});
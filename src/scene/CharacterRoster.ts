@@ -0,0 +1,172 @@
+import {Character, User} from "@chub-ai/stages-ts";
+import {KnownCharacter} from "./CharacterDetector";
+
+// Roster of the chat's characters and users, built once from InitialData.
+// Each entry carries appearance traits parsed from its card so every capture describes
+// the same person the same way.
+
+export interface AppearanceTraits {
+    age?: string;
+    gender?: string;
+    hair?: string;
+    eyes?: string;
+    skin?: string;
+    build?: string;
+    clothing?: string;
+}
+
+export interface RosterEntry {
+    speakerId: string;
+    name: string;
+    isUser: boolean;
+    description: string;
+    personality: string;
+    scenario: string;
+    appearance: AppearanceTraits;
+    // Chub project id or full path, when the card still exposes one
+    chubProject?: string;
+}
+
+const HAIR_WORDS = 'long|short|shoulder-length|waist-length|cropped|curly|straight|wavy|messy|braided|tied|black|brown|blonde|blond|red|auburn|ginger|silver|grey|gray|white|pink|blue|purple|green|dark|light|golden|chestnut|raven|platinum|jet-black|strawberry-blonde';
+const EYE_WORDS = 'blue|green|brown|hazel|grey|gray|amber|black|violet|dark|light|bright|piercing|warm|golden|red';
+const BUILD_WORDS = ['slim', 'slender', 'athletic', 'petite', 'muscular', 'curvy', 'stocky', 'lanky', 'tall', 'toned', 'broad-shouldered'];
+const SKIN_WORDS = 'pale|fair|tan|tanned|olive|dark|brown|freckled|porcelain|sun-kissed|ebony';
+
+const FEMALE_WORDS = /\b(she|her|hers|herself|woman|girl|lady|female|wife|mother|daughter|sister|actress|queen)\b/gi;
+const MALE_WORDS = /\b(he|him|his|himself|man|boy|guy|gentleman|male|husband|father|son|brother|actor|king)\b/gi;
+
+// Pulls visual traits out of free-text card fields; anything not mentioned stays undefined
+export function parseAppearance(text: string, genderHints: string = ""): AppearanceTraits {
+    const traits: AppearanceTraits = {};
+
+    const ageMatch = text.match(/\b(\d{1,3})[\s-]*(?:years?|yrs?)[\s-]*old\b/i) ||
+        text.match(/\baged?\s*(?:is\s*)?(\d{1,3})\b/i) ||
+        text.match(/\bage:\s*(\d{1,3})\b/i);
+    if (ageMatch) {
+        traits.age = `${ageMatch[1]}-year-old`;
+    }
+
+    const evidence = `${text} ${genderHints}`;
+    const female = (evidence.match(FEMALE_WORDS) || []).length;
+    const male = (evidence.match(MALE_WORDS) || []).length;
+    if (female > male) {
+        traits.gender = 'woman';
+    } else if (male > female) {
+        traits.gender = 'man';
+    }
+
+    const hairMatch = text.match(new RegExp(`\\b((?:(?:${HAIR_WORDS})[\\s,-]+(?:and\\s+)?){1,4})hair\\b`, 'i'));
+    if (hairMatch) {
+        traits.hair = `${cleanPhrase(hairMatch[1])} hair`;
+    }
+
+    const eyeMatch = text.match(new RegExp(`\\b((?:(?:${EYE_WORDS})[\\s-]+){1,2})eyes\\b`, 'i'));
+    if (eyeMatch) {
+        traits.eyes = `${cleanPhrase(eyeMatch[1])} eyes`;
+    }
+
+    const skinMatch = text.match(new RegExp(`\\b((?:${SKIN_WORDS})(?:[\\s-]+(?:${SKIN_WORDS}))?)[\\s-]+(?:skin|complexion)\\b`, 'i'));
+    if (skinMatch) {
+        traits.skin = `${cleanPhrase(skinMatch[1])} skin`;
+    }
+
+    const builds = BUILD_WORDS.filter(word => new RegExp(`\\b${word}\\b`, 'i').test(text));
+    if (builds.length > 0) {
+        traits.build = builds.slice(0, 2).join(', ');
+    }
+
+    const clothingMatch = text.match(/\b(?:wears|wearing|dressed in|clad in)\s+([^.;!?\n]+)/i);
+    if (clothingMatch) {
+        traits.clothing = cleanPhrase(clothingMatch[1]).split(/,\s*(?:and\s+)?(?:she|he|they)\b/i)[0].slice(0, 80);
+    }
+
+    return traits;
+}
+
+// "37-year-old woman, long black hair, green eyes, slim build, wearing a grey blazer"
+export function describeAppearance(traits: AppearanceTraits): string {
+    const person = [traits.age, traits.gender].filter(Boolean).join(' ');
+    return [
+        person,
+        traits.hair,
+        traits.eyes,
+        traits.skin,
+        traits.build ? `${traits.build} build` : undefined,
+        traits.clothing ? `wearing ${traits.clothing}` : undefined
+    ].filter(Boolean).join(', ');
+}
+
+export class CharacterRoster {
+    private entries: RosterEntry[];
+
+    constructor(entries: RosterEntry[]) {
+        this.entries = entries;
+    }
+
+    static fromInitialData(characters: { [key: string]: Character } = {}, users: { [key: string]: User } = {}): CharacterRoster {
+        const entries: RosterEntry[] = [];
+
+        for (const [speakerId, character] of Object.entries(characters)) {
+            if (character.isRemoved || !character.name) {
+                continue;
+            }
+            entries.push({
+                speakerId,
+                name: character.name,
+                isUser: false,
+                description: character.description || "",
+                personality: character.personality || "",
+                scenario: character.scenario || "",
+                appearance: parseAppearance(character.description || "", `${character.personality || ""} ${character.scenario || ""}`),
+                chubProject: chubProjectOf(character)
+            });
+        }
+
+        for (const [speakerId, user] of Object.entries(users)) {
+            if (user.isRemoved || !user.name) {
+                continue;
+            }
+            entries.push({
+                speakerId,
+                name: user.name,
+                isUser: true,
+                description: user.chatProfile || "",
+                personality: "",
+                scenario: "",
+                appearance: parseAppearance(user.chatProfile || "")
+            });
+        }
+
+        return new CharacterRoster(entries);
+    }
+
+    all(): RosterEntry[] {
+        return this.entries;
+    }
+
+    find(name: string): RosterEntry | undefined {
+        const lowered = name.toLowerCase();
+        return this.entries.find(entry => entry.name.toLowerCase() === lowered) ||
+            this.entries.find(entry => entry.name.toLowerCase().split(/\s+/)[0] === lowered);
+    }
+
+    bySpeakerId(speakerId: string): RosterEntry | undefined {
+        return this.entries.find(entry => entry.speakerId === speakerId);
+    }
+
+    // Seeds the character detector
+    knownCharacters(): KnownCharacter[] {
+        return this.entries.map(entry => ({ name: entry.name, speakerId: entry.speakerId }));
+    }
+}
+
+// Most identifying extension values are redacted for stages, but use them when present
+function chubProjectOf(character: Character): string | undefined {
+    const chub = character.partial_extensions?.chub;
+    const project = chub?.full_path || chub?.id;
+    return project ? String(project) : undefined;
+}
+
+function cleanPhrase(phrase: string): string {
+    return phrase.replace(/[\s,]+$/, '').replace(/\s+/g, ' ').trim().toLowerCase();
+}
@@ -0,0 +1,53 @@
+import {describe, expect, it, vi} from "vitest";
+import {compareWithScene, correctionFor, ImageVerifier, parseImageDescription} from "./ImageVerifier";
+import {SceneContext} from "./SceneTracker";
+
+const LIBRARY: SceneContext = { characters: ["Janessa", "Susan"], location: "library", actions: "studying", mood: "calm", timeOfDay: "night" };
+
+describe("compareWithScene", () => {
+    it("accepts a matching description", () => {
+        expect(compareWithScene({ caption: "", people: 2, setting: "old libraries", timeOfDay: "midnight" }, LIBRARY)).toEqual([]);
+        expect(compareWithScene({ caption: "two women reading" }, LIBRARY)).toEqual([]);
+    });
+
+    it("reports missing characters, the wrong setting and the wrong time of day", () => {
+        const issues = compareWithScene({ caption: "", people: 1, setting: "cafe", timeOfDay: "afternoon" }, LIBRARY);
+
+        expect(issues).toEqual([
+            { kind: 'missing_character', expected: "Janessa, Susan", found: "1 people" },
+            { kind: 'wrong_setting', expected: "library", found: "cafe" },
+            { kind: 'wrong_time', expected: "night", found: "afternoon" }
+        ]);
+        expect(issues.map(issue => correctionFor(issue, LIBRARY))).toEqual([
+            "2 people clearly visible: Janessa, Susan",
+            "set in a library, not a cafe",
+            "night lighting and sky, not afternoon"
+        ]);
+    });
+
+    it("treats times that look alike as the same", () => {
+        expect(compareWithScene({ caption: "", timeOfDay: "sunset" }, { ...LIBRARY, timeOfDay: "evening" })).toEqual([]);
+        expect(compareWithScene({ caption: "", timeOfDay: "morning" }, { ...LIBRARY, timeOfDay: "afternoon" })).toEqual([]);
+    });
+});
+
+describe("parseImageDescription", () => {
+    it("reads fenced JSON and keeps only well-typed fields", () => {
+        expect(parseImageDescription('```json\n{"caption": "a cafe", "people": 2, "setting": " cafe ", "timeOfDay": 5}\n```'))
+            .toEqual({ caption: "a cafe", people: 2, setting: "cafe" });
+    });
+
+    it("takes a plain reply as a caption", () => {
+        expect(parseImageDescription("Two students in a library.")).toEqual({ caption: "Two students in a library." });
+        expect(parseImageDescription("{not json}")).toBeNull();
+    });
+});
+
+describe("ImageVerifier", () => {
+    it("returns null when the backend fails", async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const verifier = new ImageVerifier(() => Promise.reject(new Error("offline")));
+
+        expect(await verifier.verify("image.png", LIBRARY)).toBeNull();
+    });
+});
@@ -0,0 +1,170 @@
+import axios from "axios";
+import {SceneContext} from "./SceneTracker";
+import {POE_API_BASE_URL} from "../providers";
+
+// Checks a generated image against the scene it was meant to show. A vision backend describes
+// the image without being told what to expect; the description is then compared with the
+// SceneContext, and each mismatch becomes an issue the refinement prompt can correct.
+
+export interface ImageDescription {
+    caption: string;
+    // Only what the backend committed to; missing fields are not judged
+    people?: number;
+    setting?: string;
+    timeOfDay?: string;
+}
+
+// Describes the image at a URL; null when the backend could not
+export type ImageDescriber = (imageUrl: string) => Promise<ImageDescription | null>;
+
+export type VerificationIssueKind = 'missing_character' | 'wrong_setting' | 'wrong_time';
+
+export interface VerificationIssue {
+    kind: VerificationIssueKind;
+    expected: string;
+    found: string;
+}
+
+export interface VerificationResult {
+    description: ImageDescription;
+    issues: VerificationIssue[];
+}
+
+const DESCRIBE_PROMPT = `Describe this image for a continuity check. Answer with only a JSON object:
+{
+  "caption": string,     // one sentence describing the image
+  "people": number,      // how many people are clearly visible
+  "setting": string,     // where it takes place in one or two words, e.g. "library"
+  "timeOfDay": string    // "dawn", "day", "evening" or "night"
+}`;
+
+// Time words grouped by how they look; only a different group is a mismatch
+const TIME_GROUPS: Record<string, string[]> = {
+    dawn: ['dawn', 'sunrise', 'early morning'],
+    day: ['day', 'daytime', 'morning', 'midday', 'noon', 'afternoon', 'daylight'],
+    evening: ['evening', 'sunset', 'dusk', 'twilight', 'golden hour'],
+    night: ['night', 'midnight', 'nighttime', 'dark']
+};
+
+// Generic words that say nothing about which place it is
+const SETTING_FILLER = ['a', 'an', 'the', 'room', 'area', 'place', 'scene', 'indoors', 'outdoors', 'interior', 'exterior'];
+
+export class ImageVerifier {
+    constructor(private describe: ImageDescriber) {
+    }
+
+    async verify(imageUrl: string, scene: SceneContext): Promise<VerificationResult | null> {
+        try {
+            const description = await this.describe(imageUrl);
+            return description ? { description, issues: compareWithScene(description, scene) } : null;
+        } catch (error) {
+            console.warn('Image verification failed:', error instanceof Error ? error.message : error);
+            return null;
+        }
+    }
+}
+
+export function compareWithScene(description: ImageDescription, scene: SceneContext): VerificationIssue[] {
+    const issues: VerificationIssue[] = [];
+
+    if (description.people !== undefined && description.people < scene.characters.length) {
+        issues.push({ kind: 'missing_character', expected: scene.characters.join(', '), found: `${description.people} people` });
+    }
+    if (description.setting && !sameSetting(description.setting, scene.location)) {
+        issues.push({ kind: 'wrong_setting', expected: scene.location, found: description.setting });
+    }
+    const expectedTime = timeGroup(scene.timeOfDay);
+    const foundTime = description.timeOfDay ? timeGroup(description.timeOfDay) : undefined;
+    if (expectedTime && foundTime && expectedTime !== foundTime) {
+        issues.push({ kind: 'wrong_time', expected: scene.timeOfDay, found: description.timeOfDay || "" });
+    }
+
+    return issues;
+}
+
+// A targeted prompt change for one issue
+export function correctionFor(issue: VerificationIssue, scene: SceneContext): string {
+    switch (issue.kind) {
+        case 'missing_character':
+            return `${scene.characters.length} people clearly visible: ${issue.expected}`;
+        case 'wrong_setting':
+            return `set in a ${issue.expected}, not a ${issue.found}`;
+        case 'wrong_time':
+            return `${issue.expected} lighting and sky, not ${issue.found}`;
+    }
+}
+
+// Accepts bare JSON or JSON wrapped in prose/code fences; a plain sentence becomes a caption only
+export function parseImageDescription(reply: string): ImageDescription | null {
+    const start = reply.indexOf('{');
+    const end = reply.lastIndexOf('}');
+    if (start < 0 || end <= start) {
+        return reply.trim() ? { caption: reply.trim() } : null;
+    }
+
+    let data: Record<string, unknown>;
+    try {
+        data = JSON.parse(reply.slice(start, end + 1));
+    } catch {
+        return null;
+    }
+    if (!data || typeof data !== 'object') {
+        return null;
+    }
+
+    const description: ImageDescription = { caption: typeof data.caption === 'string' ? data.caption : "" };
+    if (typeof data.people === 'number' && data.people >= 0) {
+        description.people = Math.round(data.people);
+    }
+    if (typeof data.setting === 'string' && data.setting.trim()) {
+        description.setting = data.setting.trim();
+    }
+    if (typeof data.timeOfDay === 'string' && data.timeOfDay.trim()) {
+        description.timeOfDay = data.timeOfDay.trim();
+    }
+    return description;
+}
+
+// Descriptions from a Poe vision bot (the vision_model setting)
+export function poeVision(apiKey: string, model: string, baseUrl: string = POE_API_BASE_URL): ImageDescriber {
+    return async imageUrl => {
+        const response = await axios.post(`${baseUrl}/chat/completions`, {
+            model,
+            messages: [{
+                role: "user",
+                content: [
+                    { type: "text", text: DESCRIBE_PROMPT },
+                    { type: "image_url", image_url: { url: imageUrl } }
+                ]
+            }],
+            max_tokens: 200,
+            stream: false
+        }, {
+            headers: {
+                'Authorization': `Bearer ${apiKey}`,
+                'Content-Type': 'application/json'
+            },
+            timeout: 60000
+        });
+        const reply: string | undefined = response.data?.choices?.[0]?.message?.content;
+        return reply ? parseImageDescription(reply) : null;
+    };
+}
+
+function sameSetting(found: string, expected: string): boolean {
+    // Singular stems, so "libraries" matches "library"
+    const words = (text: string) => text.toLowerCase().split(/[^a-z]+/)
+        .filter(word => word && !SETTING_FILLER.includes(word))
+        .map(word => word.replace(/ies$/, 'y').replace(/(?<!s)s$/, ''));
+    const expectedWords = words(expected);
+    const foundWords = words(found);
+    if (expectedWords.length === 0 || foundWords.length === 0) {
+        return true;
+    }
+    return expectedWords.some(word => foundWords.some(other => other.startsWith(word) || word.startsWith(other)));
+}
+
+function timeGroup(time: string): string | undefined {
+    const lowered = time.toLowerCase();
+    return Object.keys(TIME_GROUPS).find(group => TIME_GROUPS[group].some(word => lowered.includes(word)));
+}
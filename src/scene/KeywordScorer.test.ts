@@ -0,0 +1,42 @@
+import {describe, expect, it} from "vitest";
+import {rankKeywords, scoreKeywords} from "./KeywordScorer";
+
+const PLACES = { classroom: "classroom", room: "room", library: "library", cafe: "cafe" };
+const ACTIONS = { exam: "taking exam", test: "taking test" };
+const MOODS = { nervous: "anxious", calm: "peaceful" };
+
+describe("scoreKeywords", () => {
+    it("matches whole words and simple inflections only", () => {
+        expect(scoreKeywords(PLACES, ["We met in the classroom."])?.value).toBe("classroom");
+        expect(rankKeywords(PLACES, ["We met in the classroom."]).map(candidate => candidate.value)).toEqual(["classroom"]);
+        expect(scoreKeywords(ACTIONS, ["She will examine the contest entries."])).toBeNull();
+        expect(scoreKeywords(PLACES, ["Both libraries were closed."])?.value).toBe("library");
+        expect(scoreKeywords(MOODS, ["He laughed nervously."])?.value).toBe("anxious");
+    });
+
+    it("weights newer messages above older ones", () => {
+        expect(scoreKeywords(PLACES, ["The library was quiet.", "The cafe was busy."])?.value).toBe("cafe");
+    });
+
+    it("lets repeated mentions outweigh a single newer one", () => {
+        const ranked = rankKeywords(PLACES, ["The library, the library, always the library.", "A cafe sign flickered."]);
+
+        expect(ranked[0]).toEqual({ value: "library", score: 1.5 });
+    });
+
+    it("counts negated mentions against a candidate", () => {
+        expect(scoreKeywords(PLACES, ["We left the library behind."])).toBeNull();
+        expect(scoreKeywords(MOODS, ["She was not nervous at all, just calm."])?.value).toBe("peaceful");
+        expect(scoreKeywords(PLACES, ["We left the library and went to the cafe."])?.value).toBe("cafe");
+        expect(scoreKeywords(PLACES, ["She sat in the left corner of the classroom."])?.value).toBe("classroom");
+        expect(scoreKeywords(PLACES, ["The one on the left by the library."])?.value).toBe("library");
+    });
+
+    it("boosts cue words and reports confidence", () => {
+        const options = { cueWords: ['in', 'at'] };
+
+        expect(scoreKeywords(PLACES, ["We studied in the library."], options)).toEqual({ value: "library", confidence: 1 });
+        expect(scoreKeywords(PLACES, ["The library smelled of dust."], options)?.confidence).toBe(0.67);
+        expect(scoreKeywords(PLACES, ["The library or the cafe?"])?.confidence).toBeLessThan(0.5);
+    });
+});
@@ -0,0 +1,88 @@
+// Scores keyword-table candidates over a window of messages instead of taking the first table
+// entry found anywhere. Keywords match on word boundaries (plus simple inflections), recent
+// messages count more, repeated mentions add up, and negated mentions ("we left the library",
+// "not nervous") count against a candidate.
+
+export type KeywordTable = Record<string, string>;
+
+export interface ScoredValue {
+    value: string;
+    // 0-1: share of the evidence behind the winner, scaled down when the evidence is thin
+    confidence: number;
+}
+
+export interface KeywordScoringOptions {
+    // Words that make a following keyword more likely to be meant literally, e.g. "in", "at" for places
+    cueWords?: string[];
+}
+
+// "left"/"leave" only count as verbs, followed by what was left: "left the library", not "the left corner"
+const NEGATIONS = ['not', 'never', 'no', 'without', '(?:left|leaves?|leaving) (?:the|a|an|my|your|his|her|our|their)',
+    'exited', 'exits', 'away from', 'out of', 'no longer', 'stopped'];
+const NEGATION_WINDOW = 3;
+const CUE_BONUS = 1.5;
+// Weighted score at which a lone candidate is fully trusted
+const STRONG_EVIDENCE = 1.5;
+
+// Oldest message first; each older message counts half as much as the next
+export function rankKeywords(table: KeywordTable, messages: string[], options: KeywordScoringOptions = {}): { value: string, score: number }[] {
+    const scores = new Map<string, number>();
+
+    messages.forEach((message, index) => {
+        const weight = Math.pow(0.5, messages.length - 1 - index);
+        const text = message.toLowerCase();
+
+        for (const [keyword, value] of Object.entries(table)) {
+            for (const match of text.matchAll(keywordPattern(keyword))) {
+                const before = precedingWords(text, match.index ?? 0);
+                let score = weight;
+                if (isNegated(before)) {
+                    score = -weight;
+                } else if (options.cueWords && options.cueWords.some(cue => before.slice(-2).includes(cue))) {
+                    score *= CUE_BONUS;
+                }
+                scores.set(value, (scores.get(value) || 0) + score);
+            }
+        }
+    });
+
+    return [...scores.entries()]
+        .map(([value, score]) => ({ value, score }))
+        .sort((a, b) => b.score - a.score);
+}
+
+export function scoreKeywords(table: KeywordTable, messages: string[], options: KeywordScoringOptions = {}): ScoredValue | null {
+    const ranked = rankKeywords(table, messages, options);
+    const top = ranked[0];
+    if (!top || top.score <= 0) {
+        return null;
+    }
+
+    const total = ranked.reduce((sum, candidate) => sum + Math.max(0, candidate.score), 0);
+    const confidence = (top.score / total) * Math.min(1, top.score / STRONG_EVIDENCE);
+    return { value: top.value, confidence: Math.round(confidence * 100) / 100 };
+}
+
+const patternCache = new Map<string, RegExp>();
+
+// "library" matches "library"/"libraries" but not part of another word; "exam" never matches "examine"
+function keywordPattern(keyword: string): RegExp {
+    let pattern = patternCache.get(keyword);
+    if (!pattern) {
+        const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        const stem = escaped.endsWith('y') ? `${escaped.slice(0, -1)}(?:y|ies)` : `${escaped}(?:s|es)?`;
+        pattern = new RegExp(`\\b${stem}(?:ly)?\\b`, 'g');
+        patternCache.set(keyword, pattern);
+    }
+    return pattern;
+}
+
+function precedingWords(text: string, index: number): string[] {
+    const sentenceStart = Math.max(text.lastIndexOf('.', index), text.lastIndexOf('!', index), text.lastIndexOf('?', index), text.lastIndexOf('\n', index));
+    return text.slice(sentenceStart + 1, index).split(/[^a-z']+/).filter(Boolean).slice(-(NEGATION_WINDOW + 1));
+}
+
+function isNegated(before: string[]): boolean {
+    const recent = before.join(' ');
+    return NEGATIONS.some(negation => new RegExp(`\\b${negation}\\b`).test(recent));
+}
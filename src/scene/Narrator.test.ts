@@ -0,0 +1,50 @@
+import {describe, expect, it, vi} from "vitest";
+import {buildNarrationPrompt, cleanNarrative, narrativeExcerpt, Narrator} from "./Narrator";
+import {SceneContext} from "./SceneTracker";
+
+const SCENE: SceneContext = { characters: ["Janessa"], location: "library", actions: "studying", mood: "anxious", timeOfDay: "night" };
+const MESSAGES = [{ speaker: "Janessa", content: "Janessa opened her notes." }];
+const OPTIONS = { campusName: "National Law University", style: "brief", timeoutMs: 1000 };
+
+describe("Narrator", () => {
+    it("asks for a chronicle in the configured style and campus", async () => {
+        const complete = vi.fn().mockResolvedValue("Janessa bent over her notes as the library emptied.");
+        const narrator = new Narrator(complete, OPTIONS);
+
+        expect(await narrator.narrate(MESSAGES, SCENE)).toBe("Janessa bent over her notes as the library emptied.");
+        const [prompt, maxTokens] = complete.mock.calls[0];
+        expect(prompt).toContain("chronicler of National Law University");
+        expect(prompt).toContain("one or two plain sentences");
+        expect(prompt).toContain("Janessa: Janessa opened her notes.");
+        expect(maxTokens).toBe(80);
+    });
+
+    it("returns null when the model fails or says nothing", async () => {
+        expect(await new Narrator(vi.fn().mockRejectedValue(new Error("offline")), OPTIONS).narrate(MESSAGES, SCENE)).toBeNull();
+        expect(await new Narrator(vi.fn().mockResolvedValue("  "), OPTIONS).narrate(MESSAGES, SCENE)).toBeNull();
+        expect(await new Narrator(vi.fn(), OPTIONS).narrate([], SCENE)).toBeNull();
+    });
+
+    it("falls back to the detailed style for unknown styles", () => {
+        expect(buildNarrationPrompt(MESSAGES, SCENE, "Campus", "poetic")).toContain("three or four sentences");
+
+        const constructorPrompt = buildNarrationPrompt(MESSAGES, SCENE, "Campus", "constructor");
+        expect(constructorPrompt).toContain("three or four sentences");
+        expect(constructorPrompt).not.toContain("undefined");
+    });
+});
+
+describe("cleanNarrative", () => {
+    it("strips labels, quotes and extra whitespace", () => {
+        expect(cleanNarrative('Narrator: "The library  was quiet.\nJanessa read on."')).toBe("The library was quiet. Janessa read on.");
+    });
+});
+
+describe("narrativeExcerpt", () => {
+    it("keeps whole opening sentences within the limit", () => {
+        const narrative = "The library was quiet. Janessa read on. Outside, rain began to fall on the quad.";
+
+        expect(narrativeExcerpt(narrative, 45)).toBe("The library was quiet. Janessa read on");
+        expect(narrativeExcerpt("No punctuation at all", 10)).toBe("No punctua");
+    });
+});
@@ -0,0 +1,83 @@
+import {AnalyzableMessage, TextCompletion} from "./SceneAnalyzer";
+import {SceneContext} from "./SceneTracker";
+import {withTimeout} from "../util";
+
+// The campus narrator: after each bot response a text model writes a short third-person
+// chronicle of the scene. Failures return null and the previous narrative stays in place.
+
+export type NarrativeStyle = 'brief' | 'detailed' | 'immersive';
+
+export interface NarratorOptions {
+    campusName: string;
+    style: string;
+    timeoutMs: number;
+}
+
+const STYLE_GUIDES: Record<NarrativeStyle, { guide: string, maxTokens: number }> = {
+    brief: { guide: "one or two plain sentences", maxTokens: 80 },
+    detailed: { guide: "three or four sentences covering the setting, the characters and what just happened", maxTokens: 200 },
+    immersive: { guide: "a vivid paragraph of up to six sentences with sensory detail and atmosphere", maxTokens: 320 }
+};
+
+const MAX_NARRATIVE_LENGTH = 1200;
+
+export class Narrator {
+    constructor(private complete: TextCompletion, private options: NarratorOptions) {
+    }
+
+    async narrate(messages: AnalyzableMessage[], scene: SceneContext): Promise<string | null> {
+        if (messages.length === 0) {
+            return null;
+        }
+        const { maxTokens } = styleGuide(this.options.style);
+
+        try {
+            const prompt = buildNarrationPrompt(messages, scene, this.options.campusName, this.options.style);
+            const reply = await withTimeout(this.complete(prompt, maxTokens), this.options.timeoutMs, "Narration");
+            return reply ? cleanNarrative(reply) : null;
+        } catch (error) {
+            console.warn('Narration failed:', error instanceof Error ? error.message : error);
+            return null;
+        }
+    }
+}
+
+export function buildNarrationPrompt(messages: AnalyzableMessage[], scene: SceneContext, campusName: string, style: string): string {
+    const transcript = messages.map(message => `${message.speaker}: ${message.content}`).join('\n');
+    return `You are the chronicler of ${campusName}, narrating a roleplay from outside the story.\n\n` +
+        `Scene: ${scene.characters.join(', ')} at the ${scene.location}, ${scene.timeOfDay}; ${scene.mood} mood.\n\n` +
+        `Transcript:\n${transcript}\n\n` +
+        `Write ${styleGuide(style).guide} chronicling this moment in the third person and past tense. ` +
+        `Do not add dialogue or invent events. Answer with only the narration.`;
+}
+
+// Drops speaker labels, wrapping quotes and extra whitespace that models like to add
+export function cleanNarrative(reply: string): string | null {
+    const text = reply.trim()
+        .replace(/^(narrator|chronicle|narration)\s*:\s*/i, '')
+        .replace(/^["“](.*)["”]$/s, '$1')
+        .replace(/\s+/g, ' ')
+        .trim();
+    if (!text) {
+        return null;
+    }
+    return text.length > MAX_NARRATIVE_LENGTH ? `${text.slice(0, MAX_NARRATIVE_LENGTH).replace(/\s+\S*$/, '')}...` : text;
+}
+
+// The opening sentences, short enough for an image prompt
+export function narrativeExcerpt(narrative: string, maxLength: number = 300): string {
+    const sentences = narrative.match(/[^.!?]+[.!?]*/g) || [narrative];
+    let excerpt = "";
+    for (const sentence of sentences) {
+        if (excerpt && excerpt.length + sentence.length > maxLength) {
+            break;
+        }
+        excerpt += sentence;
+    }
+    return excerpt.slice(0, maxLength).trim().replace(/[.!?]+$/, '');
+}
+
+// Own keys only, so a style like "constructor" falls back too
+function styleGuide(style: string) {
+    return Object.prototype.hasOwnProperty.call(STYLE_GUIDES, style) ? STYLE_GUIDES[style as NarrativeStyle] : STYLE_GUIDES.detailed;
+}
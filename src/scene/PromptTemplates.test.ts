@@ -0,0 +1,50 @@
+import {describe, expect, it} from "vitest";
+import {DEFAULT_TEMPLATE, PROMPT_PRESETS, renderTemplate, resolvePromptPreset} from "./PromptTemplates";
+
+describe("renderTemplate", () => {
+    it("fills placeholders and drops optional groups with empty values", () => {
+        const prompt = renderTemplate("{style} scene[, {camera}]: {subjects} at {location}[, with {props}], {quality}", {
+            style: "anime",
+            camera: "",
+            subjects: "Janessa",
+            location: "library",
+            props: "",
+            quality: "detailed"
+        });
+
+        expect(prompt).toBe("anime scene: Janessa at library, detailed");
+    });
+
+    it("renders unknown placeholders as empty and tidies the punctuation", () => {
+        expect(renderTemplate("{mystery}, {location} , {unset}, night", { location: "cafe" })).toBe("cafe, night");
+    });
+});
+
+describe("resolvePromptPreset", () => {
+    it("uses the scene style's preset by default", () => {
+        expect(resolvePromptPreset("anime")).toBe(PROMPT_PRESETS.anime);
+        expect(resolvePromptPreset("Realistic", "")).toBe(PROMPT_PRESETS.realistic);
+    });
+
+    it("selects a preset by name or overrides the template", () => {
+        expect(resolvePromptPreset("anime", "artistic")).toBe(PROMPT_PRESETS.artistic);
+
+        const custom = resolvePromptPreset("anime", "{subjects} in {location}");
+        expect(custom.template).toBe("{subjects} in {location}");
+        expect(custom.negativePrompt).toBe(PROMPT_PRESETS.anime.negativePrompt);
+    });
+
+    it("falls back to generic tags for styles without a preset", () => {
+        const watercolor = resolvePromptPreset("watercolor");
+
+        expect(watercolor.template).toBe(DEFAULT_TEMPLATE);
+        expect(watercolor.quality).toBe("high quality, detailed");
+    });
+
+    it("does not mistake built-in object keys for presets", () => {
+        for (const name of ["constructor", "__proto__", "toString"]) {
+            expect(resolvePromptPreset(name).template).toBe(DEFAULT_TEMPLATE);
+            expect(resolvePromptPreset("anime", name).template).toBe(name);
+        }
+    });
+});
@@ -0,0 +1,88 @@
+// Image prompt templates. A template is plain text with {placeholders} for the scene fields;
+// a [bracketed group] is dropped when any placeholder inside it is empty, so optional details
+// ("[, with {props}]") disappear cleanly instead of leaving "with ," behind.
+//
+// Placeholders: {style}, {subjects} (characters with their details), {characters}, {location},
+// {actions}, {mood}, {timeOfDay}, {props}, {weather}, {lighting}, {camera}, {quality} and
+// {narrative} (the opening of the narrator's latest chronicle, empty without the narrator).
+
+export type PromptStyle = 'cinematic' | 'anime' | 'realistic' | 'artistic';
+
+export interface PromptPreset {
+    template: string;
+    // Style-appropriate quality tags, filled into {quality}
+    quality: string;
+    negativePrompt: string;
+}
+
+export const DEFAULT_TEMPLATE = "{style} scene[, {camera}]: {subjects} {actions} at {location}[, with {props}][, {weather} weather], " +
+    "{mood} mood, [{lighting}, ]{timeOfDay} lighting, {quality}";
+
+// Takes the place of DEFAULT_TEMPLATE when narrative_prompt is on; falls back to it without a narrative
+export const NARRATIVE_TEMPLATE = "{style} scene[, {camera}]: {narrative}, {subjects} at {location}[, with {props}], " +
+    "{mood} mood, [{lighting}, ]{timeOfDay} lighting, {quality}";
+
+const COMMON_NEGATIVE = "blurry, low quality, deformed, extra limbs, bad anatomy, watermark, text";
+
+export const PROMPT_PRESETS: Record<PromptStyle, PromptPreset> = {
+    cinematic: {
+        template: DEFAULT_TEMPLATE,
+        quality: "high quality, detailed, dramatic composition, shallow depth of field, film grain",
+        negativePrompt: `${COMMON_NEGATIVE}, cartoon, flat colors`
+    },
+    anime: {
+        template: DEFAULT_TEMPLATE,
+        quality: "high quality, detailed, clean lineart, vibrant colors, cel shading",
+        negativePrompt: `${COMMON_NEGATIVE}, photorealistic, 3d render`
+    },
+    realistic: {
+        template: DEFAULT_TEMPLATE,
+        quality: "high quality, detailed, photorealistic, natural skin texture, sharp focus",
+        negativePrompt: `${COMMON_NEGATIVE}, cartoon, anime, illustration, painting`
+    },
+    artistic: {
+        template: DEFAULT_TEMPLATE,
+        quality: "high quality, detailed, painterly, expressive brushwork, rich colors",
+        negativePrompt: `${COMMON_NEGATIVE}, photograph`
+    }
+};
+
+// For scene_style values without a preset of their own, e.g. "watercolor"
+const GENERIC_PRESET: PromptPreset = {
+    template: DEFAULT_TEMPLATE,
+    quality: "high quality, detailed",
+    negativePrompt: COMMON_NEGATIVE
+};
+
+// prompt_template is either a preset name or a custom template; a custom template keeps the
+// quality tags and negative prompt of the scene style's preset
+export function resolvePromptPreset(style: string, promptTemplate: string = ""): PromptPreset {
+    const selected = presetNamed(promptTemplate);
+    if (selected) {
+        return selected;
+    }
+    const base = presetNamed(style) || GENERIC_PRESET;
+    return promptTemplate.trim() ? { ...base, template: promptTemplate.trim() } : base;
+}
+
+// Own keys only: names typed in chat (/scene style) must not find "constructor" and the like
+function presetNamed(name: string): PromptPreset | undefined {
+    const key = name.trim().toLowerCase();
+    return Object.prototype.hasOwnProperty.call(PROMPT_PRESETS, key) ? PROMPT_PRESETS[key as PromptStyle] : undefined;
+}
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+const OPTIONAL_GROUP = /\[([^[\]]*)\]/g;
+
+// Unknown placeholders render as empty
+export function renderTemplate(template: string, values: Record<string, string>): string {
+    const fill = (text: string) => text.replace(PLACEHOLDER, (_, name: string) => values[name] || "");
+    const withGroups = template.replace(OPTIONAL_GROUP, (_, group: string) =>
+        [...group.matchAll(PLACEHOLDER)].every(([, name]) => !!values[name]) ? fill(group) : "");
+
+    return fill(withGroups)
+        .replace(/\s+/g, ' ')
+        .replace(/\s+([,:])/g, '$1')
+        .replace(/(,\s*)+,/g, ',')
+        .replace(/^[\s,]+|[\s,]+$/g, '');
+}
@@ -0,0 +1,105 @@
+import {beforeEach, describe, expect, it, vi} from "vitest";
+import {buildAnalysisPrompt, LlmSceneAnalyzer, parseSceneAnalysis} from "./SceneAnalyzer";
+
+const TRANSCRIPT = [
+    { speaker: "User", content: "Meet me in the library tonight." },
+    { speaker: "Janessa", content: "*opens her notes nervously*" }
+];
+
+const VALID_REPLY = JSON.stringify({
+    characters: ["Janessa"],
+    location: "university library",
+    actions: "reviewing notes",
+    mood: "anxious",
+    timeOfDay: "night"
+});
+
+beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe("parseSceneAnalysis", () => {
+    it("reads bare or fenced JSON", () => {
+        expect(parseSceneAnalysis(VALID_REPLY)).toEqual({
+            characters: ["Janessa"],
+            location: "university library",
+            actions: "reviewing notes",
+            mood: "anxious",
+            timeOfDay: "night",
+            people: [],
+            props: [],
+            weather: "",
+            lighting: "",
+            camera: ""
+        });
+        expect(parseSceneAnalysis("Here you go:\n```json\n" + VALID_REPLY + "\n```")?.location).toBe("university library");
+    });
+
+    it("treats missing fields as not mentioned", () => {
+        expect(parseSceneAnalysis('{"location": "cafe"}')).toEqual({
+            characters: [], location: "cafe", actions: "", mood: "", timeOfDay: "",
+            people: [], props: [], weather: "", lighting: "", camera: ""
+        });
+    });
+
+    it("reads per-character details, props, weather, lighting and camera", () => {
+        const evidence = parseSceneAnalysis(JSON.stringify({
+            characters: ["Janessa"],
+            location: "cafe",
+            people: [{ name: "Janessa", outfit: "a red scarf", expression: "smiling", pose: "" }],
+            props: ["coffee", " "],
+            weather: "rainy",
+            lighting: "warm lamplight",
+            camera: "close-up"
+        }));
+
+        expect(evidence).toMatchObject({
+            people: [{ name: "Janessa", outfit: "a red scarf", expression: "smiling" }],
+            props: ["coffee"],
+            weather: "rainy",
+            lighting: "warm lamplight",
+            camera: "close-up"
+        });
+        expect(evidence?.people?.[0]).not.toHaveProperty('pose');
+        expect(parseSceneAnalysis('{"location": "cafe", "people": [{"outfit": "coat"}]}')).toBeNull();
+        expect(parseSceneAnalysis('{"location": "cafe", "props": "coffee"}')).toBeNull();
+    });
+
+    it("rejects prose, wrong types and empty answers", () => {
+        expect(parseSceneAnalysis("A default text response.")).toBeNull();
+        expect(parseSceneAnalysis('{"characters": "Janessa", "location": "cafe"}')).toBeNull();
+        expect(parseSceneAnalysis('{"location": 3}')).toBeNull();
+        expect(parseSceneAnalysis('{"characters": [], "location": ""}')).toBeNull();
+        expect(parseSceneAnalysis('{"location": "cafe",}')).toBeNull();
+    });
+});
+
+describe("LlmSceneAnalyzer", () => {
+    it("sends the transcript and known characters with the schema", async () => {
+        const complete = vi.fn().mockResolvedValue(VALID_REPLY);
+        const analyzer = new LlmSceneAnalyzer(complete);
+
+        const evidence = await analyzer.analyze(TRANSCRIPT, ["Janessa", "Susan"]);
+
+        expect(evidence?.mood).toBe("anxious");
+        expect(complete).toHaveBeenCalledWith(buildAnalysisPrompt(TRANSCRIPT, ["Janessa", "Susan"]), 300);
+        const prompt = complete.mock.calls[0][0] as string;
+        expect(prompt).toContain("Known characters: Janessa, Susan");
+        expect(prompt).toContain("Janessa: *opens her notes nervously*");
+        expect(prompt).toContain('"timeOfDay": string');
+    });
+
+    it("returns null on errors, invalid replies and timeouts", async () => {
+        expect(await new LlmSceneAnalyzer(() => Promise.reject(new Error("offline"))).analyze(TRANSCRIPT)).toBeNull();
+        expect(await new LlmSceneAnalyzer(async () => "not json").analyze(TRANSCRIPT)).toBeNull();
+        expect(await new LlmSceneAnalyzer(async () => null).analyze(TRANSCRIPT)).toBeNull();
+        expect(await new LlmSceneAnalyzer(() => new Promise(() => {}), 10).analyze(TRANSCRIPT)).toBeNull();
+    });
+
+    it("does not call the model without messages", async () => {
+        const complete = vi.fn();
+
+        expect(await new LlmSceneAnalyzer(complete).analyze([])).toBeNull();
+        expect(complete).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,181 @@
+import axios from "axios";
+import {SceneCharacter, SceneEvidence} from "./SceneTracker";
+import {POE_API_BASE_URL} from "../providers";
+import {withTimeout} from "../util";
+
+// Optional LLM scene analysis: the recent transcript goes to a text model with a fixed JSON
+// schema, and the reply is validated before it is trusted. Any failure returns null so the
+// caller keeps the keyword extractors' result.
+
+// Sends a prompt to some text model and returns its raw reply
+export type TextCompletion = (prompt: string, maxTokens: number) => Promise<string | null>;
+
+export interface AnalyzableMessage {
+    speaker: string;
+    content: string;
+}
+
+interface TextGenerator {
+    textGen(request: { prompt: string, max_tokens: number }): Promise<{ result: string } | null>;
+}
+
+const MAX_FIELD_LENGTH = 80;
+
+const SCENE_SCHEMA = `{
+  "characters": string[],  // names of the characters present, most important first
+  "location": string,      // where the scene takes place, e.g. "library"
+  "actions": string,       // what they are doing, e.g. "studying together"
+  "mood": string,          // one or two words, e.g. "tense"
+  "timeOfDay": string,     // e.g. "morning", "evening", "night"
+  "people": [              // one entry per character present
+    { "name": string, "outfit": string, "expression": string, "pose": string, "holding": string }
+  ],
+  "props": string[],       // notable objects in view
+  "weather": string,       // e.g. "rainy", or "" indoors
+  "lighting": string,      // e.g. "candlelight", "neon lighting"
+  "camera": string         // framing: "close-up", "two-shot" or "wide shot"
+}`;
+
+export class LlmSceneAnalyzer {
+    constructor(private complete: TextCompletion,
+                private timeoutMs: number = 15000) {
+    }
+
+    async analyze(messages: AnalyzableMessage[], knownCharacters: string[] = []): Promise<SceneEvidence | null> {
+        if (messages.length === 0) {
+            return null;
+        }
+
+        try {
+            const reply = await withTimeout(this.complete(buildAnalysisPrompt(messages, knownCharacters), 300), this.timeoutMs, "Scene analysis");
+            const evidence = reply ? parseSceneAnalysis(reply) : null;
+            if (!evidence) {
+                console.warn('Scene analysis reply was not valid scene JSON:', reply?.slice(0, 200));
+            }
+            return evidence;
+        } catch (error) {
+            console.warn('Scene analysis failed:', error instanceof Error ? error.message : error);
+            return null;
+        }
+    }
+}
+
+export function buildAnalysisPrompt(messages: AnalyzableMessage[], knownCharacters: string[]): string {
+    const transcript = messages.map(message => `${message.speaker}: ${message.content}`).join('\n');
+    const cast = knownCharacters.length > 0 ? `Known characters: ${knownCharacters.join(', ')}\n\n` : "";
+    return `Describe the current scene of this roleplay transcript for an illustrator.\n\n${cast}` +
+        `Transcript:\n${transcript}\n\n` +
+        `Answer with only a JSON object matching this schema, using "" for anything the transcript does not establish:\n${SCENE_SCHEMA}`;
+}
+
+// Accepts bare JSON or JSON wrapped in prose/code fences; null unless every field has the right type
+export function parseSceneAnalysis(reply: string): SceneEvidence | null {
+    const start = reply.indexOf('{');
+    const end = reply.lastIndexOf('}');
+    if (start < 0 || end <= start) {
+        return null;
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(reply.slice(start, end + 1));
+    } catch {
+        return null;
+    }
+    if (!parsed || typeof parsed !== 'object') {
+        return null;
+    }
+
+    const data = parsed as Record<string, unknown>;
+    const characters = data.characters ?? [];
+    if (!Array.isArray(characters) || !characters.every(name => typeof name === 'string')) {
+        return null;
+    }
+
+    const fields = ['location', 'actions', 'mood', 'timeOfDay', 'weather', 'lighting', 'camera'] as const;
+    if (fields.some(field => data[field] !== undefined && typeof data[field] !== 'string')) {
+        return null;
+    }
+    const text = (field: typeof fields[number]) => clean(data[field] as string | undefined);
+
+    const props = data.props ?? [];
+    if (!Array.isArray(props) || !props.every(prop => typeof prop === 'string')) {
+        return null;
+    }
+    const people = parsePeople(data.people ?? []);
+    if (!people) {
+        return null;
+    }
+
+    const evidence: SceneEvidence = {
+        characters: characters.map(name => clean(name)).filter(name => name.length > 0),
+        location: text('location'),
+        actions: text('actions'),
+        mood: text('mood'),
+        timeOfDay: text('timeOfDay'),
+        people,
+        props: props.map(prop => clean(prop)).filter(prop => prop.length > 0),
+        weather: text('weather'),
+        lighting: text('lighting'),
+        camera: text('camera')
+    };
+    const empty = evidence.characters.length === 0 && (['location', 'actions', 'mood', 'timeOfDay'] as const).every(field => !evidence[field]);
+    return empty ? null : evidence;
+}
+
+// Per-character entries: a name is required, every other field is an optional string
+function parsePeople(value: unknown): SceneCharacter[] | null {
+    if (!Array.isArray(value)) {
+        return null;
+    }
+    const people: SceneCharacter[] = [];
+    for (const item of value) {
+        if (!item || typeof item !== 'object' || typeof item.name !== 'string') {
+            return null;
+        }
+        const person: SceneCharacter = { name: clean(item.name) };
+        for (const field of ['outfit', 'expression', 'pose', 'holding'] as const) {
+            if (item[field] !== undefined && typeof item[field] !== 'string') {
+                return null;
+            }
+            if (item[field]) {
+                person[field] = clean(item[field]);
+            }
+        }
+        if (person.name) {
+            people.push(person);
+        }
+    }
+    return people;
+}
+
+function clean(value: string | undefined): string {
+    return (value || "").trim().slice(0, MAX_FIELD_LENGTH);
+}
+
+// Completions through the chat's own model via the stage generator
+export function generatorCompletion(generator: TextGenerator): TextCompletion {
+    return async (prompt, maxTokens) => {
+        const response = await generator.textGen({ prompt, max_tokens: maxTokens });
+        return response?.result ?? null;
+    };
+}
+
+// Completions through a Poe text bot (the narrator_model setting)
+export function poeCompletion(apiKey: string, model: string, baseUrl: string = POE_API_BASE_URL): TextCompletion {
+    return async (prompt, maxTokens) => {
+        const response = await axios.post(`${baseUrl}/chat/completions`, {
+            model,
+            messages: [{ role: "user", content: prompt }],
+            max_tokens: maxTokens,
+            stream: false
+        }, {
+            headers: {
+                'Authorization': `Bearer ${apiKey}`,
+                'Content-Type': 'application/json'
+            },
+            timeout: 60000
+        });
+        return response.data?.choices?.[0]?.message?.content ?? null;
+    };
+}
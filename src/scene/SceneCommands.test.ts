@@ -0,0 +1,39 @@
+import {describe, expect, it} from "vitest";
+import {parseSceneCommands} from "./SceneCommands";
+
+describe("parseSceneCommands", () => {
+    it("takes command lines out of the message", () => {
+        const { commands, message } = parseSceneCommands("/scene style anime\nLet's keep reading.\n  /Scene location rooftop bar");
+
+        expect(commands).toEqual([
+            { kind: 'style', style: "anime" },
+            { kind: 'set', field: 'location', value: "rooftop bar" }
+        ]);
+        expect(message).toBe("Let's keep reading.");
+    });
+
+    it("reads the short forms and field aliases", () => {
+        const { commands } = parseSceneCommands("/scene\n/scene reroll\n/scene off\n/scene on\n/scene time dusk\n/scene cast Janessa, Alex");
+
+        expect(commands).toEqual([
+            { kind: 'capture' },
+            { kind: 'reroll' },
+            { kind: 'off' },
+            { kind: 'on' },
+            { kind: 'set', field: 'timeOfDay', value: "dusk" },
+            { kind: 'set', field: 'characters', value: "Janessa, Alex" }
+        ]);
+    });
+
+    it("answers unknown or incomplete commands with help", () => {
+        expect(parseSceneCommands("/scene dance").commands).toEqual([{ kind: 'help', unknown: "dance" }]);
+        expect(parseSceneCommands("/scene location").commands).toEqual([{ kind: 'help', unknown: "location" }]);
+        expect(parseSceneCommands("/scene constructor rooftop").commands).toEqual([{ kind: 'help', unknown: "constructor rooftop" }]);
+        expect(parseSceneCommands("/scene __proto__ rooftop").commands).toEqual([{ kind: 'help', unknown: "__proto__ rooftop" }]);
+    });
+
+    it("leaves messages without commands alone", () => {
+        expect(parseSceneCommands("Take the /scenic route")).toEqual({ commands: [], message: "Take the /scenic route" });
+        expect(parseSceneCommands("She said /scene twice").commands).toHaveLength(0);
+    });
+});
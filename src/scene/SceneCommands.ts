@@ -0,0 +1,73 @@
+import {EditableField} from "./ScenePins";
+
+// `/scene` commands typed into a user message. Each command takes a line of its own, e.g.
+// "/scene location rooftop"; command lines are taken out of the message before the bot sees it.
+
+export type SceneCommand =
+    // Bare "/scene": capture now
+    { kind: 'capture' } |
+    // Another image of the shown scene with a new seed
+    { kind: 'reroll' } |
+    { kind: 'style', style: string } |
+    // Pins a correction, like editing the field in the preview
+    { kind: 'set', field: EditableField, value: string } |
+    // Pause or resume automatic captures, stage directions and image posts
+    { kind: 'off' } |
+    { kind: 'on' } |
+    { kind: 'help', unknown?: string };
+
+export const SCENE_COMMAND_HELP = "Scene commands: /scene (capture now), /scene reroll, /scene style <name>, " +
+    "/scene location|time|mood|actions|characters <value>, /scene off, /scene on";
+
+const FIELD_NAMES: Record<string, EditableField> = {
+    location: 'location',
+    place: 'location',
+    time: 'timeOfDay',
+    mood: 'mood',
+    action: 'actions',
+    actions: 'actions',
+    characters: 'characters',
+    cast: 'characters'
+};
+
+const COMMAND_LINE = /^\s*\/scene\b(.*)$/i;
+
+// `message` is what is left for the bot; unchanged when there are no commands
+export function parseSceneCommands(content: string): { commands: SceneCommand[], message: string } {
+    const commands: SceneCommand[] = [];
+    const kept: string[] = [];
+    for (const line of content.split("\n")) {
+        const match = line.match(COMMAND_LINE);
+        if (match) {
+            commands.push(parseCommand(match[1].trim()));
+        } else {
+            kept.push(line);
+        }
+    }
+    return { commands, message: commands.length > 0 ? kept.join("\n").trim() : content };
+}
+
+function parseCommand(args: string): SceneCommand {
+    const [name = "", ...rest] = args.split(/\s+/).filter(word => word.length > 0);
+    const keyword = name.toLowerCase();
+    const value = rest.join(" ");
+
+    switch (keyword) {
+        case '':
+        case 'capture':
+            return { kind: 'capture' };
+        case 'reroll':
+            return { kind: 'reroll' };
+        case 'off':
+            return { kind: 'off' };
+        case 'on':
+            return { kind: 'on' };
+        case 'style':
+            return value ? { kind: 'style', style: value } : { kind: 'help', unknown: args };
+        case 'help':
+            return { kind: 'help' };
+    }
+    // Own keys only, so "/scene constructor x" is an unknown command rather than a field
+    const field = Object.prototype.hasOwnProperty.call(FIELD_NAMES, keyword) ? FIELD_NAMES[keyword] : undefined;
+    return field && value ? { kind: 'set', field, value } : { kind: 'help', unknown: args };
+}
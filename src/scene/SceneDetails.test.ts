@@ -0,0 +1,52 @@
+import {describe, expect, it} from "vitest";
+import {extractSceneDetails} from "./SceneDetails";
+
+const NAMES = ["Janessa", "Susan Park"];
+
+describe("extractSceneDetails", () => {
+    it("attributes outfits, expressions, poses and held items to the named character", () => {
+        const details = extractSceneDetails(
+            "Janessa sits by the window, wearing a grey blazer. She smiles. Susan crosses her arms, holding a folder.",
+            NAMES
+        );
+
+        expect(details.people).toEqual([
+            { name: "Janessa", pose: "sitting", outfit: "a grey blazer", expression: "smiling" },
+            { name: "Susan Park", pose: "arms crossed", holding: "a folder" }
+        ]);
+        expect(details.props).toEqual(["folder"]);
+    });
+
+    it("credits unnamed roleplay actions to the author", () => {
+        const details = extractSceneDetails("*blushes and leans closer* Hi there.", NAMES, "Janessa");
+
+        expect(details.people).toEqual([{ name: "Janessa", expression: "blushing", pose: "leaning" }]);
+    });
+
+    it("ignores narration that names nobody", () => {
+        const details = extractSceneDetails("Susan waved. The crowd laughed and sat down.", NAMES);
+
+        expect(details.people).toEqual([]);
+    });
+
+    it("reads props, weather, lighting and explicit framing", () => {
+        const details = extractSceneDetails("Close-up: rain taps on the glass while candles burn beside a glass of wine and a book.", NAMES);
+
+        expect(details).toMatchObject({
+            props: ["glass of wine", "book"],
+            weather: "rainy",
+            lighting: "candlelight",
+            camera: "close-up"
+        });
+    });
+
+    it("leaves everything empty for plain dialogue", () => {
+        expect(extractSceneDetails("\"Are you ready for the exam?\"", NAMES)).toEqual({
+            people: [],
+            props: [],
+            weather: "",
+            lighting: "",
+            camera: ""
+        });
+    });
+});
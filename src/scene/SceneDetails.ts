@@ -0,0 +1,167 @@
+import {SceneCharacter} from "./SceneTracker";
+
+// Picks the visual details out of one message: what each character wears, holds, looks like
+// and is doing with their body, plus props, weather, lighting and any explicit framing.
+// Sentences are attributed to the last named character, starting with the message's author,
+// so "*smiles and sits down*" from Janessa is about Janessa.
+
+export interface SceneDetails {
+    people: SceneCharacter[];
+    props: string[];
+    weather: string;
+    lighting: string;
+    camera: string;
+}
+
+const EXPRESSIONS: [RegExp, string][] = [
+    [/\bsmirk(?:s|ed|ing)?\b/, 'smirking'],
+    [/\bgrin(?:s|ned|ning)?\b/, 'grinning'],
+    [/\bsmil(?:e|es|ed|ing)\b/, 'smiling'],
+    [/\blaugh(?:s|ed|ing)?\b|\bgiggl(?:e|es|ed|ing)\b/, 'laughing'],
+    [/\bfrown(?:s|ed|ing)?\b/, 'frowning'],
+    [/\bscowl(?:s|ed|ing)?\b|\bglar(?:e|es|ed|ing)\b/, 'scowling'],
+    [/\bblush(?:es|ed|ing)?\b/, 'blushing'],
+    [/\bpout(?:s|ed|ing)?\b/, 'pouting'],
+    [/\bcr(?:y|ies|ied|ying)\b|\bsob(?:s|bed|bing)?\b|\btears\b/, 'tearful'],
+    [/\bgasp(?:s|ed|ing)?\b|\bwide-eyed\b/, 'wide-eyed']
+];
+
+const POSES: [RegExp, string][] = [
+    [/\bcross(?:es|ed|ing)? (?:her|his|their) arms\b|\barms crossed\b/, 'arms crossed'],
+    [/\bkneel(?:s|ing)?\b|\bknelt\b/, 'kneeling'],
+    [/\b(?:lies|lay|lying) (?:down|back|on|in)\b/, 'lying down'],
+    [/\blean(?:s|ed|ing)?\b/, 'leaning'],
+    [/\bhug(?:s|ged|ging)?\b|\bembrac(?:e|es|ed|ing)\b/, 'hugging'],
+    [/\bdanc(?:e|es|ed|ing)\b/, 'dancing'],
+    [/\brun(?:s|ning)?\b|\bran\b/, 'running'],
+    [/\bwalk(?:s|ed|ing)?\b/, 'walking'],
+    [/\bsits?\b|\bsat\b|\bsitting\b|\bseated\b/, 'sitting'],
+    [/\bstand(?:s|ing)?\b|\bstood\b/, 'standing']
+];
+
+const PROP_NOUNS = [
+    'coffee', 'tea', 'mug', 'cup', 'glass of wine', 'wine', 'book', 'notebook', 'notes', 'laptop', 'phone',
+    'umbrella', 'letter', 'backpack', 'bag', 'bouquet', 'flowers', 'pen', 'guitar', 'camera', 'cigarette',
+    'sword', 'keys', 'map', 'candle', 'lantern', 'briefcase', 'folder', 'textbook'
+];
+
+const WEATHER: [RegExp, string][] = [
+    [/\bstorm(?:s|y|ing)?\b|\bthunder\w*\b/, 'stormy'],
+    [/\brain(?:s|y|ing|ed)?\b|\bdrizzl\w*\b|\bdownpour\b/, 'rainy'],
+    [/\bsnow\w*\b/, 'snowy'],
+    [/\bfog(?:gy)?\b|\bmist(?:y)?\b/, 'foggy'],
+    [/\bwindy\b|\bgusts?\b/, 'windy'],
+    [/\bovercast\b|\bcloudy\b/, 'overcast'],
+    [/\bsunny\b|\bsunshine\b/, 'sunny']
+];
+
+const LIGHTING: [RegExp, string][] = [
+    [/\bcandle(?:s|light|lit)?\b/, 'candlelight'],
+    [/\bfireplace\b|\bfirelight\b|\bcampfire\b|\bbonfire\b/, 'warm firelight'],
+    [/\bneon\b/, 'neon lighting'],
+    [/\bmoonlight\b|\bmoonlit\b/, 'moonlight'],
+    [/\bfluorescent\b/, 'fluorescent lighting'],
+    [/\blamp(?:s|light)?\b/, 'warm lamplight'],
+    [/\bsunlight\b|\bsunbeams?\b/, 'bright sunlight'],
+    [/\bdim(?:ly)?\b|\bdarkness\b|\bshadows\b/, 'dim lighting']
+];
+
+const CAMERA: [RegExp, string][] = [
+    [/\bclose[- ]up\b/, 'close-up'],
+    [/\bover[- ]the[- ]shoulder\b/, 'over-the-shoulder shot'],
+    [/\bwide shot\b|\bpanoram\w*\b/, 'wide shot']
+];
+
+const OUTFIT_PATTERN = /\b(?:wears|wearing|wore|dressed in|clad in|changed into|changes into|puts on|put on|slips into|slipped into)\s+([^.;!?*\n]+)/;
+const HOLDING_PATTERN = /\b(?:holds|holding|held|clutches|clutching|clutched|carries|carrying|carried|grabs|grabbed|grabbing|picks up|picked up|sips|sipped|sipping)\b\s+([^.;!?*\n]+)/;
+const PRONOUN_PATTERN = /\b(?:she|he|they|her|his|him|them)\b/;
+
+export function extractSceneDetails(text: string, names: string[], author?: string): SceneDetails {
+    const lowered = text.toLowerCase();
+    const people = new Map<string, SceneCharacter>();
+    let subject = author && names.includes(author) ? author : undefined;
+
+    for (const sentence of text.split(/[.!?\n]+|\*/)) {
+        const named = mentionedNames(sentence, names);
+        if (named.length > 0) {
+            subject = named[0];
+        } else if (!PRONOUN_PATTERN.test(sentence.toLowerCase()) && subject !== author) {
+            // A sentence with no name or pronoun is narration, not the last-named character
+            continue;
+        }
+        if (!subject) {
+            continue;
+        }
+
+        const details = describeSentence(sentence.toLowerCase());
+        if (Object.keys(details).length > 0) {
+            people.set(subject, { ...(people.get(subject) || { name: subject }), ...details });
+        }
+    }
+
+    return {
+        people: [...people.values()],
+        props: PROP_NOUNS.filter(prop => new RegExp(`\\b${prop}\\b`).test(lowered))
+            .filter((prop, _, found) => !found.some(other => other !== prop && other.includes(prop))),
+        weather: firstMatch(WEATHER, lowered),
+        lighting: firstMatch(LIGHTING, lowered),
+        camera: firstMatch(CAMERA, lowered)
+    };
+}
+
+function describeSentence(sentence: string): Omit<SceneCharacter, 'name'> {
+    const details: Omit<SceneCharacter, 'name'> = {};
+
+    const expression = firstMatch(EXPRESSIONS, sentence);
+    if (expression) {
+        details.expression = expression;
+    }
+    const pose = firstMatch(POSES, sentence);
+    if (pose) {
+        details.pose = pose;
+    }
+    const outfit = sentence.match(OUTFIT_PATTERN);
+    if (outfit) {
+        details.outfit = trimPhrase(outfit[1]);
+    }
+    const holding = sentence.match(HOLDING_PATTERN);
+    if (holding) {
+        details.holding = trimPhrase(holding[1]);
+    }
+
+    return details;
+}
+
+// Names in the order they appear, matched on the full or first name
+function mentionedNames(sentence: string, names: string[]): string[] {
+    return names
+        .map(name => ({ name, index: mentionIndex(sentence, name) }))
+        .filter(mention => mention.index >= 0)
+        .sort((a, b) => a.index - b.index)
+        .map(mention => mention.name);
+}
+
+function mentionIndex(sentence: string, name: string): number {
+    for (const candidate of [name, name.split(/\s+/)[0]]) {
+        const escaped = candidate.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        const match = sentence.match(new RegExp(`(?<![A-Za-z])${escaped}(?![A-Za-z])`));
+        if (match?.index !== undefined) {
+            return match.index;
+        }
+    }
+    return -1;
+}
+
+// Keeps a clause short enough for a prompt: "a red scarf and a grey coat, then sits" -> "a red scarf and a grey coat"
+function trimPhrase(phrase: string): string {
+    return phrase
+        .split(/,|\band (?:she|he|they)\b|\b(?:then|while|as|before|after|with)\b/)[0]
+        .trim()
+        .split(/\s+/)
+        .slice(0, 8)
+        .join(' ');
+}
+
+function firstMatch(table: [RegExp, string][], text: string): string {
+    return table.find(([pattern]) => pattern.test(text))?.[1] || "";
+}
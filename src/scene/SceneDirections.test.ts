@@ -0,0 +1,27 @@
+import {describe, expect, it} from "vitest";
+import {imageMessage, sceneDirections} from "./SceneDirections";
+import {SceneTracker} from "./SceneTracker";
+
+describe("sceneDirections", () => {
+    it("lists only what the story has established", () => {
+        const state = { ...new SceneTracker().toState(), location: "library", timeOfDay: "night", cast: ["Janessa", "Alex"] };
+
+        expect(sceneDirections(state)).toBe(
+            "[Current scene - Location: library. Time: night. Present: Janessa, Alex. Stay consistent with this unless the story moves the scene on.]"
+        );
+        expect(sceneDirections({ ...state, timeOfDay: "", cast: [] })).toMatch(/^\[Current scene - Location: library\. Stay/);
+    });
+
+    it("stays quiet before anything is known", () => {
+        expect(sceneDirections(new SceneTracker().toState())).toBeNull();
+    });
+});
+
+describe("imageMessage", () => {
+    it("embeds the image with a caption from its scene", () => {
+        const scene = { characters: ["Janessa"], location: "library", actions: "studying", mood: "calm", timeOfDay: "night" };
+
+        expect(imageMessage("https://images.example/scene (1).png", scene))
+            .toBe("![Janessa in the library at night](https://images.example/scene%20%281%29.png)");
+    });
+});
@@ -0,0 +1,33 @@
+import {SceneContext, SceneTrackerState} from "./SceneTracker";
+
+// What the composer feeds back into the chat: stage directions that remind the bot where the
+// scene stands, and system messages that embed generated images.
+
+// Only what the story has established; null until it has established anything
+export function sceneDirections(state: SceneTrackerState): string | null {
+    const facts: string[] = [];
+    if (state.location) {
+        facts.push(`Location: ${state.location}`);
+    }
+    if (state.timeOfDay) {
+        facts.push(`Time: ${state.timeOfDay}`);
+    }
+    if (state.cast.length > 0) {
+        facts.push(`Present: ${state.cast.join(", ")}`);
+    }
+    if (state.weather) {
+        facts.push(`Weather: ${state.weather}`);
+    }
+    if (facts.length === 0) {
+        return null;
+    }
+    return `[Current scene - ${facts.join(". ")}. Stay consistent with this unless the story moves the scene on.]`;
+}
+
+// Markdown image captioned with its scene, e.g. "![Janessa in the library at night](...)"
+export function imageMessage(imageUrl: string, scene: SceneContext): string {
+    const caption = `${scene.characters.join(", ")} in the ${scene.location} at ${scene.timeOfDay}`.replace(/[[\]]/g, "");
+    // Spaces and parentheses would end the link early
+    const url = imageUrl.replace(/[ ()]/g, character => `%${character.charCodeAt(0).toString(16).toUpperCase()}`);
+    return `![${caption}](${url})`;
+}
@@ -0,0 +1,47 @@
+import {describe, expect, it} from "vitest";
+import {applyEdits, applyPin, pinEdits} from "./ScenePins";
+import {SceneContext} from "./SceneTracker";
+
+const PARSED: SceneContext = {
+    characters: ["Janessa"],
+    location: "university campus",
+    actions: "studying",
+    mood: "calm",
+    timeOfDay: "evening",
+    people: [{ name: "Janessa", outfit: "a red scarf" }]
+};
+
+describe("ScenePins", () => {
+    it("keeps details for remaining characters when the cast is edited", () => {
+        const edited = applyEdits(PARSED, { characters: ["Janessa", "Susan"] });
+
+        expect(edited.people).toEqual([{ name: "Janessa", outfit: "a red scarf" }, { name: "Susan" }]);
+    });
+
+    it("pins only the fields that were changed", () => {
+        const pin = pinEdits(PARSED, { ...PARSED, location: "library", mood: "tense" });
+
+        expect(pin?.edits).toEqual({ location: "library", mood: "tense" });
+        expect(pin?.baseline).toBe(PARSED);
+        expect(pinEdits(PARSED, { ...PARSED })).toBeUndefined();
+    });
+
+    it("reapplies pinned edits while the parsed scene stays put", () => {
+        const pin = pinEdits(PARSED, { ...PARSED, location: "library" });
+
+        const later = applyPin(pin, { ...PARSED, actions: "reading", mood: "happy" });
+
+        expect(later.pin).toBe(pin);
+        expect(later.context).toMatchObject({ location: "library", actions: "reading", mood: "happy" });
+    });
+
+    it("releases the pin once the location, time or cast changes", () => {
+        const pin = pinEdits(PARSED, { ...PARSED, location: "library" });
+
+        for (const moved of [{ location: "cafe" }, { timeOfDay: "night" }, { characters: ["Janessa", "Susan"] }]) {
+            const later = applyPin(pin, { ...PARSED, ...moved });
+            expect(later.pin).toBeUndefined();
+            expect(later.context).toEqual({ ...PARSED, ...moved });
+        }
+    });
+});
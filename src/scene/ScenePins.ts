@@ -0,0 +1,60 @@
+import {diffScenes, SceneContext} from "./SceneTracker";
+
+// Hand corrections to a parsed scene. Pinned corrections are re-applied to later captures
+// until the parsed scene itself moves on (new location, time of day or cast), at which point
+// they no longer describe what is happening and are dropped.
+
+export type EditableField = 'characters' | 'location' | 'actions' | 'mood' | 'timeOfDay';
+
+export type SceneEdits = Partial<Pick<SceneContext, EditableField>>;
+
+export interface PinnedScene {
+    edits: SceneEdits;
+    // The parsed scene the edits were made against
+    baseline: SceneContext;
+}
+
+export const EDITABLE_FIELDS: EditableField[] = ['characters', 'location', 'actions', 'mood', 'timeOfDay'];
+
+const RELEASE_FIELDS = ['location', 'timeOfDay', 'characters'];
+
+export function applyEdits(context: SceneContext, edits: SceneEdits): SceneContext {
+    const edited = { ...context, ...edits };
+    if (edits.characters) {
+        // Keep details for characters that stay, start fresh entries for added ones
+        edited.people = edits.characters.map(name =>
+            context.people?.find(person => person.name === name) || { name });
+    }
+    return edited;
+}
+
+// A field typed in as text; characters are a comma-separated list
+export function fieldEdit(field: EditableField, value: string): SceneEdits {
+    return field === 'characters' ?
+        { characters: value.split(',').map(name => name.trim()).filter(name => name.length > 0) } :
+        { [field]: value };
+}
+
+// Only the fields the user actually changed are pinned; nothing changed means nothing to pin
+export function pinEdits(parsed: SceneContext, edited: SceneContext): PinnedScene | undefined {
+    const edits: SceneEdits = {};
+    for (const field of EDITABLE_FIELDS) {
+        if (field === 'characters') {
+            if (edited.characters.join('|') !== parsed.characters.join('|')) {
+                edits.characters = [...edited.characters];
+            }
+        } else if (edited[field] !== parsed[field]) {
+            edits[field] = edited[field];
+        }
+    }
+    return Object.keys(edits).length > 0 ? { edits, baseline: parsed } : undefined;
+}
+
+// Returns the scene to generate and the pin to keep (undefined once the scene has changed)
+export function applyPin(pin: PinnedScene | undefined, parsed: SceneContext): { context: SceneContext, pin?: PinnedScene } {
+    if (!pin) {
+        return { context: parsed };
+    }
+    const moved = diffScenes(pin.baseline, parsed).some(change => RELEASE_FIELDS.includes(change.field));
+    return moved ? { context: parsed } : { context: applyEdits(parsed, pin.edits), pin };
+}
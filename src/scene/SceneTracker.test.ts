@@ -0,0 +1,122 @@
+import {describe, expect, it} from "vitest";
+import {DEFAULT_SCENE, describeChange, diffScenes, SceneEvidence, SceneTracker, SceneTrackerState} from "./SceneTracker";
+
+function evidence(overrides: Partial<SceneEvidence> = {}): SceneEvidence {
+    return { characters: [], location: "", actions: "", mood: "", timeOfDay: "", ...overrides };
+}
+
+describe("SceneTracker", () => {
+    it("starts from the defaults", () => {
+        const tracker = new SceneTracker();
+
+        expect(tracker.current).toEqual(DEFAULT_SCENE);
+    });
+
+    it("merges evidence and keeps fields no message mentions", () => {
+        const tracker = new SceneTracker();
+
+        tracker.observe("", evidence({ location: "library", mood: "peaceful" }));
+        tracker.observe("", evidence({ timeOfDay: "night" }));
+
+        expect(tracker.current).toMatchObject({ location: "library", mood: "peaceful", timeOfDay: "night" });
+    });
+
+    it("records transitions for location, time, arrivals and departures", () => {
+        const tracker = new SceneTracker();
+
+        tracker.observe("", evidence({ location: "library", characters: ["Janessa"] }), "m1");
+        const transitions = tracker.observe("Susan sighed, then left without a word.", evidence({ timeOfDay: "night", characters: ["Susan"] }), "m2");
+
+        // Susan is only named as she leaves, so she never arrived
+        expect(transitions.map(transition => transition.description)).toEqual(["night fell", "Susan left"]);
+        expect(transitions[0].messageId).toBe("m2");
+        expect(tracker.current.characters).toEqual(["Janessa"]);
+        expect(tracker.transitions).toHaveLength(4);
+    });
+
+    it("does not read the direction or a left-behind object as a departure", () => {
+        const tracker = new SceneTracker();
+        tracker.observe("", evidence({ characters: ["Janessa", "Susan"] }));
+
+        expect(tracker.observe("Susan, standing on the left, smiled.", evidence())).toEqual([]);
+        expect(tracker.observe("Janessa left her bag on the table.", evidence())).toEqual([]);
+        expect(tracker.observe("Susan glanced to her left.", evidence())).toEqual([]);
+        expect(tracker.current.characters).toEqual(["Janessa", "Susan"]);
+
+        expect(tracker.observe("Janessa left the library.", evidence()).map(transition => transition.description)).toEqual(["Janessa left"]);
+    });
+
+    it("does not repeat a transition for evidence it already has", () => {
+        const tracker = new SceneTracker();
+
+        tracker.observe("", evidence({ location: "library", characters: ["Janessa"] }));
+
+        expect(tracker.observe("", evidence({ location: "library", characters: ["Janessa"] }))).toEqual([]);
+    });
+
+    it("keeps the most recently active characters up to the limit", () => {
+        const tracker = new SceneTracker(2);
+
+        tracker.observe("", evidence({ characters: ["Tom"] }));
+        tracker.observe("", evidence({ characters: ["Susan", "Janessa"] }));
+
+        expect(tracker.current.characters).toEqual(["Susan", "Janessa"]);
+    });
+
+    it("keeps character details, props and framing until the scene moves on", () => {
+        const tracker = new SceneTracker();
+
+        tracker.observe("", evidence({
+            location: "cafe",
+            characters: ["Janessa", "Susan"],
+            people: [{ name: "Janessa", outfit: "a red scarf", expression: "smiling" }],
+            props: ["coffee"],
+            weather: "rainy",
+            camera: "close-up"
+        }));
+        tracker.observe("", evidence({ people: [{ name: "Janessa", expression: "frowning" }], props: ["book"] }));
+
+        expect(tracker.current).toMatchObject({
+            people: [
+                { name: "Janessa", outfit: "a red scarf", expression: "frowning", position: "left" },
+                { name: "Susan", position: "right" }
+            ],
+            props: ["book", "coffee"],
+            weather: "rainy",
+            camera: "close-up"
+        });
+
+        tracker.observe("", evidence({ location: "library" }));
+
+        expect(tracker.current).toMatchObject({ props: [], weather: "rainy", camera: "two-shot" });
+    });
+
+    it("fills in detail fields missing from older saved state", () => {
+        const restored = new SceneTracker(3, { location: "cafe", timeOfDay: "", actions: "", mood: "", cast: ["Janessa"], transitions: [] } as unknown as SceneTrackerState);
+
+        expect(restored.current).toMatchObject({ location: "cafe", people: [{ name: "Janessa", position: "center" }], props: [], camera: "close-up" });
+    });
+
+    it("round-trips through its serialized state", () => {
+        const tracker = new SceneTracker();
+        tracker.observe("", evidence({ location: "cafe", characters: ["Janessa"] }));
+
+        const restored = new SceneTracker(3, tracker.toState());
+
+        expect(restored.current).toEqual(tracker.current);
+        expect(restored.transitions).toEqual(tracker.transitions);
+    });
+
+    it("diffs against an earlier scene", () => {
+        const tracker = new SceneTracker();
+        tracker.observe("", evidence({ location: "cafe", characters: ["Janessa", "Susan"] }));
+
+        const changes = tracker.diffSince({ ...DEFAULT_SCENE, location: "library", characters: ["Janessa"] });
+
+        expect(changes.map(describeChange)).toEqual([
+            "location: library → cafe",
+            "characters: Janessa → Janessa, Susan"
+        ]);
+        expect(diffScenes(tracker.current, { ...tracker.current, characters: ["Susan", "Janessa"] })).toEqual([]);
+    });
+});
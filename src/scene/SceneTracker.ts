@@ -0,0 +1,299 @@
+// Running scene state for the chat. Each message adds whatever evidence it carries
+// (a location, a time of day, who is present or leaving) on top of what is already known,
+// so a quiet message no longer resets the scene. Changes are recorded as transitions.
+
+export type FramePosition = 'left' | 'center' | 'right' | 'background';
+
+// One character as they appear in the scene
+export interface SceneCharacter {
+    name: string;
+    appearance?: string;
+    outfit?: string;
+    expression?: string;
+    pose?: string;
+    holding?: string;
+    position?: FramePosition;
+}
+
+// How sure keyword scoring was about each scored field, 0-1
+export type SceneConfidence = Partial<Record<'location' | 'actions' | 'mood' | 'timeOfDay', number>>;
+
+export interface SceneContext {
+    characters: string[];
+    location: string;
+    actions: string;
+    mood: string;
+    timeOfDay: string;
+    // Optional so captures saved before they existed still load
+    people?: SceneCharacter[];
+    props?: string[];
+    weather?: string;
+    lighting?: string;
+    camera?: string;
+    confidence?: SceneConfidence;
+}
+
+export const DEFAULT_SCENE: SceneContext = {
+    characters: ["main character"],
+    location: "university campus",
+    actions: "conversation",
+    mood: "neutral",
+    timeOfDay: "day",
+    people: [],
+    props: [],
+    weather: "",
+    lighting: "",
+    camera: "wide shot",
+    confidence: {}
+};
+
+// What a single message says about the scene; empty strings mean "not mentioned"
+export interface SceneEvidence {
+    characters: string[];
+    location: string;
+    actions: string;
+    mood: string;
+    timeOfDay: string;
+    people?: SceneCharacter[];
+    props?: string[];
+    weather?: string;
+    lighting?: string;
+    camera?: string;
+    confidence?: SceneConfidence;
+}
+
+export type SceneTransitionKind = 'location' | 'time' | 'arrival' | 'departure';
+
+export interface SceneTransition {
+    kind: SceneTransitionKind;
+    description: string;
+    timestamp: number;
+    messageId?: string;
+}
+
+export interface SceneChange {
+    field: keyof SceneContext;
+    from: string;
+    to: string;
+}
+
+// Serializable tracker state, stored in message state so branches keep their own scene
+export interface SceneTrackerState {
+    location: string;
+    timeOfDay: string;
+    actions: string;
+    mood: string;
+    // Present characters, most recently active first
+    cast: string[];
+    transitions: SceneTransition[];
+    // Per-character details by name, kept while they are offstage
+    people: Record<string, SceneCharacter>;
+    props: string[];
+    weather: string;
+    lighting: string;
+    camera: string;
+    confidence: SceneConfidence;
+}
+
+const MAX_TRANSITIONS = 20;
+const MAX_PROPS = 5;
+
+const TIME_PHRASES: Record<string, string> = {
+    night: "night fell",
+    midnight: "midnight came",
+    dusk: "dusk fell",
+    dawn: "dawn broke",
+    sunrise: "the sun rose",
+    sunset: "the sun set"
+};
+
+const DEPARTURE_VERBS = "walked out|walks out|stormed out|storms out|departed|departs|went home|goes home|headed out|heads out|said goodbye|says goodbye";
+// "left" is also a direction ("on the left", "to her left") and takes objects ("left her bag"),
+// so it only counts as a departure without a determiner before it or an object after it
+const LEAVE_VERB = "(?<!\\b(?:the|on|to|at|her|his|my|your|their|our|its)\\s)(?:left|leaves|leaving)\\b" +
+    "(?!-|\\s+(?:her|his|my|your|their|our|its|a|an|some|it|them|him|me|us|\\w+'s)\\b)";
+
+export class SceneTracker {
+    private state: SceneTrackerState;
+
+    constructor(private maxCharacters: number = 3, state?: SceneTrackerState) {
+        // State saved before the detail fields existed is filled in with empty ones
+        this.state = { ...emptyState(), ...state };
+    }
+
+    // Current scene with defaults for anything not established yet
+    get current(): SceneContext {
+        const characters = this.state.cast.slice(0, this.maxCharacters);
+        return {
+            characters: characters.length > 0 ? characters : DEFAULT_SCENE.characters,
+            location: this.state.location || DEFAULT_SCENE.location,
+            actions: this.state.actions || DEFAULT_SCENE.actions,
+            mood: this.state.mood || DEFAULT_SCENE.mood,
+            timeOfDay: this.state.timeOfDay || DEFAULT_SCENE.timeOfDay,
+            people: characters.map((name, index) => ({
+                ...(this.state.people[name] || { name }),
+                position: framePosition(index, characters.length)
+            })),
+            props: [...this.state.props],
+            weather: this.state.weather,
+            lighting: this.state.lighting,
+            camera: this.state.camera || framing(characters.length),
+            confidence: { ...this.state.confidence }
+        };
+    }
+
+    get transitions(): SceneTransition[] {
+        return this.state.transitions;
+    }
+
+    toState(): SceneTrackerState {
+        return {
+            ...this.state,
+            cast: [...this.state.cast],
+            transitions: [...this.state.transitions],
+            people: { ...this.state.people },
+            props: [...this.state.props],
+            confidence: { ...this.state.confidence }
+        };
+    }
+
+    // Merges one message's evidence; returns the transitions it caused
+    observe(text: string, evidence: SceneEvidence, messageId?: string): SceneTransition[] {
+        const transitions: SceneTransition[] = [];
+        const record = (kind: SceneTransitionKind, description: string) => {
+            transitions.push({ kind, description, timestamp: Date.now(), messageId });
+        };
+        const previous = this.state;
+
+        if (evidence.location && evidence.location !== previous.location) {
+            record('location', `entered the ${evidence.location}`);
+        }
+        if (evidence.timeOfDay && evidence.timeOfDay !== previous.timeOfDay) {
+            record('time', TIME_PHRASES[evidence.timeOfDay] || `it became ${evidence.timeOfDay}`);
+        }
+
+        let cast = [...previous.cast];
+        const departing = findDepartures(text, [...new Set([...cast, ...evidence.characters])]);
+        for (const name of [...evidence.characters].reverse()) {
+            // Named only in the sentence where they leave: no arrival to record
+            if (!cast.includes(name) && !departing.includes(name)) {
+                record('arrival', `${name} arrived`);
+            }
+            cast = [name, ...cast.filter(present => present !== name)];
+        }
+        for (const name of departing) {
+            cast = cast.filter(present => present !== name);
+            record('departure', `${name} left`);
+        }
+
+        const people = { ...previous.people };
+        for (const person of evidence.people || []) {
+            people[person.name] = { ...(people[person.name] || { name: person.name }), ...definedFields(person) };
+        }
+
+        // Props and an explicit framing belong to the place they were seen in
+        const moved = !!evidence.location && evidence.location !== previous.location;
+        const newProps = evidence.props || [];
+        const keptProps = moved ? [] : previous.props.filter(prop => !newProps.includes(prop));
+
+        // A field's confidence follows whichever evidence last set it
+        const confidence = { ...previous.confidence };
+        for (const field of ['location', 'actions', 'mood', 'timeOfDay'] as const) {
+            if (evidence[field]) {
+                confidence[field] = evidence.confidence?.[field];
+            }
+        }
+
+        this.state = {
+            location: evidence.location || previous.location,
+            timeOfDay: evidence.timeOfDay || previous.timeOfDay,
+            actions: evidence.actions || previous.actions,
+            mood: evidence.mood || previous.mood,
+            cast,
+            transitions: [...previous.transitions, ...transitions].slice(-MAX_TRANSITIONS),
+            people,
+            props: [...newProps, ...keptProps].slice(0, MAX_PROPS),
+            weather: evidence.weather || previous.weather,
+            lighting: evidence.lighting || previous.lighting,
+            camera: evidence.camera || (moved ? "" : previous.camera),
+            confidence
+        };
+        return transitions;
+    }
+
+    // What changed between an earlier scene (e.g. the last capture) and now
+    diffSince(previous: SceneContext): SceneChange[] {
+        return diffScenes(previous, this.current);
+    }
+}
+
+export function diffScenes(previous: SceneContext, current: SceneContext): SceneChange[] {
+    const changes: SceneChange[] = [];
+    for (const field of ['location', 'timeOfDay', 'actions', 'mood'] as const) {
+        if (previous[field] !== current[field]) {
+            changes.push({ field, from: previous[field], to: current[field] });
+        }
+    }
+    const from = previous.characters.join(', ');
+    const to = current.characters.join(', ');
+    if (castKey(previous.characters) !== castKey(current.characters)) {
+        changes.push({ field: 'characters', from, to });
+    }
+    return changes;
+}
+
+// "location: library → cafe"
+export function describeChange(change: SceneChange): string {
+    const label = change.field === 'timeOfDay' ? 'time' : change.field;
+    return `${label}: ${change.from} → ${change.to}`;
+}
+
+function findDepartures(text: string, cast: string[]): string[] {
+    return cast.filter(name => {
+        const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        return new RegExp(`\\b${escaped}\\b[^.!?]{0,40}?\\b(?:(?:${DEPARTURE_VERBS})\\b|${LEAVE_VERB})`).test(text);
+    });
+}
+
+// Spreads the framed characters across the shot
+function framePosition(index: number, count: number): FramePosition {
+    if (count === 1) {
+        return 'center';
+    }
+    if (count === 2) {
+        return index === 0 ? 'left' : 'right';
+    }
+    return (['left', 'center', 'right'] as const)[index] || 'background';
+}
+
+function framing(count: number): string {
+    if (count === 1) {
+        return "close-up";
+    }
+    return count === 2 ? "two-shot" : "wide shot";
+}
+
+function definedFields(person: SceneCharacter): Partial<SceneCharacter> {
+    return Object.fromEntries(Object.entries(person).filter(([, value]) => !!value));
+}
+
+function castKey(characters: string[]): string {
+    return characters.map(name => name.toLowerCase()).sort().join('|');
+}
+
+function emptyState(): SceneTrackerState {
+    return {
+        location: "",
+        timeOfDay: "",
+        actions: "",
+        mood: "",
+        cast: [],
+        transitions: [],
+        people: {},
+        props: [],
+        weather: "",
+        lighting: "",
+        camera: "",
+        confidence: {}
+    };
+}
@@ -0,0 +1,38 @@
+import {describe, expect, it, vi} from "vitest";
+import {createElement} from "react";
+import {renderToStaticMarkup} from "react-dom/server";
+import {Store, useStore} from "./Store";
+
+describe("Store", () => {
+    it("notifies subscribers until they unsubscribe", () => {
+        const store = new Store({ progress: "Ready", count: 0 });
+        const listener = vi.fn();
+        const unsubscribe = store.subscribe(listener);
+
+        store.update({ progress: "Generating... 1/60" });
+        store.state.count++;
+        store.notify();
+        unsubscribe();
+        store.update({ progress: "Done" });
+
+        expect(listener).toHaveBeenCalledTimes(2);
+        expect(store.state).toEqual({ progress: "Done", count: 1 });
+    });
+
+    it("changes the snapshot on every notification, including in-place mutations", () => {
+        const store = new Store({ progress: "Ready" });
+        const before = store.getVersion();
+
+        store.state.progress = "Submitted";
+        store.notify();
+
+        expect(store.getVersion()).not.toBe(before);
+    });
+
+    it("renders the current state through useStore", () => {
+        const store = new Store({ progress: "Generating... 12/60" });
+        const View = () => createElement('span', null, useStore(store).progress);
+
+        expect(renderToStaticMarkup(createElement(View))).toBe("<span>Generating... 12/60</span>");
+    });
+});
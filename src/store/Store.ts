@@ -0,0 +1,41 @@
+import {useSyncExternalStore} from "react";
+
+// Observable holder for state that is changed outside React: polling loops, timers and stage
+// hooks mutate `state` (or call update()) and then notify(); components that read it through
+// useStore() re-render on every notification.
+
+type Listener = () => void;
+
+export class Store<T extends object> {
+    private listeners = new Set<Listener>();
+    // Bumped by every notify(), so React sees a changed snapshot even when `state` was mutated in place
+    private version = 0;
+
+    constructor(readonly state: T) {
+    }
+
+    update(changes: Partial<T>) {
+        Object.assign(this.state, changes);
+        this.notify();
+    }
+
+    notify() {
+        this.version++;
+        this.listeners.forEach(listener => listener());
+    }
+
+    // Returns the unsubscribe function
+    subscribe = (listener: Listener): () => void => {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    getVersion = (): number => this.version;
+}
+
+export function useStore<T extends object>(store: Store<T>): T {
+    useSyncExternalStore(store.subscribe, store.getVersion, store.getVersion);
+    return store.state;
+}
@@ -0,0 +1,8 @@
+import {ReactElement} from "react";
+import {Store, useStore} from "./Store";
+
+// Calls `render` again whenever the store notifies, however the surrounding runner re-renders
+export function StoreView<T extends object>({ store, render }: { store: Store<T>, render: () => ReactElement }) {
+    useStore(store);
+    return render();
+}
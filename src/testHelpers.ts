@@ -0,0 +1,59 @@
+import {DEFAULT_INITIAL, DEFAULT_MESSAGE, Message} from "@chub-ai/stages-ts";
+import {Stage} from "./Stage";
+import InitData from "./assets/test-init.json";
+
+// Shared fixtures for the vitest suites - not part of the stage bundle
+
+type StageInitialData = ConstructorParameters<typeof Stage>[0];
+type StageConfig = NonNullable<StageInitialData['config']>;
+
+// Builds a Stage the same way the TestRunner does, from test-init.json plus config overrides
+export function createTestStage(config: StageConfig = {}, overrides: Partial<StageInitialData> = {}): Stage {
+    const data = {
+        ...DEFAULT_INITIAL,
+        ...InitData,
+        ...overrides,
+        config: { ...InitData.config, ...config }
+    } as StageInitialData;
+    return new Stage(data);
+}
+
+export function userMessage(content: string, overrides: Partial<Message> = {}): Message {
+    return { ...DEFAULT_MESSAGE, anonymizedId: "0", content, isBot: false, ...overrides };
+}
+
+export function botMessage(content: string, overrides: Partial<Message> = {}): Message {
+    return { ...DEFAULT_MESSAGE, anonymizedId: "1", content, isBot: true, promptForId: null, ...overrides };
+}
+
+// Feeds alternating user/bot turns through beforePrompt/afterResponse
+export async function playTranscript(stage: Stage, turns: string[]) {
+    for (let i = 0; i < turns.length; i++) {
+        if (i % 2 === 0) {
+            await stage.beforePrompt(userMessage(turns[i]));
+        } else {
+            await stage.afterResponse(botMessage(turns[i]));
+        }
+    }
+}
+
+// Reads a stored (uncompressed) ZIP back into its files, through the central directory
+export function readZip(zip: Uint8Array): Record<string, Uint8Array> {
+    const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+    const end = zip.length - 22;
+    if (view.getUint32(end, true) !== 0x06054b50) {
+        throw new Error("No end of central directory record");
+    }
+    const files: Record<string, Uint8Array> = {};
+    let position = view.getUint32(end + 16, true);
+    for (let i = 0; i < view.getUint16(end + 10, true); i++) {
+        const size = view.getUint32(position + 20, true);
+        const nameLength = view.getUint16(position + 28, true);
+        const localOffset = view.getUint32(position + 42, true);
+        const name = new TextDecoder().decode(zip.subarray(position + 46, position + 46 + nameLength));
+        const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+        files[name] = zip.subarray(dataStart, dataStart + size);
+        position += 46 + nameLength;
+    }
+    return files;
+}
@@ -2,11 +2,12 @@ import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import dts from 'vite-plugin-dts'
 import { resolve } from 'path'
+import { mockImageApiPlugin } from './mock/mockImageApi'
 
 export default defineConfig(({ command, mode }) => {
     if (mode != 'lib') {
         return {
-            plugins: [react()]
+            plugins: [react(), mockImageApiPlugin()]
         }
     } else {
         return { plugins: [
@@ -14,6 +15,7 @@ export default defineConfig(({ command, mode }) => {
                 dts({
                     outDir: ['dist'],
                     include: ['src/**/*.ts*'],
+                    exclude: ['src/**/*.test.ts', 'src/testHelpers.ts'],
                     staticImport: true,
                     rollupTypes: true,
                     insertTypesEntry: true,